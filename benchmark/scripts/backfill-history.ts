@@ -1,15 +1,22 @@
 #!/usr/bin/env node
 
 /**
- * Backfill historical benchmark data for all Vue 3.6 alpha releases.
+ * Backfill historical benchmark data for all Vue 3.6 releases.
  * Queries npm for available versions, skips already benchmarked ones,
- * and runs benchmarks for each missing version chronologically.
+ * and benchmarks the missing versions in parallel. Every version runs
+ * compare-builds.ts with `--vue <version>` in its own workspace, so the
+ * project's node_modules are never touched. Progress is kept in a state
+ * file, so an interrupted backfill resumes where it stopped.
  */
 
-import { execSync } from 'node:child_process'
-import { readFileSync } from 'node:fs'
+import { execSync, spawn } from 'node:child_process'
+import { createWriteStream, existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs'
+import os from 'node:os'
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
+import { getArgValues } from './cli'
+import { isMeasured, readHistory, writeHistory, type BenchmarkEntry, type BenchmarkHistory } from './history'
+import { compareVersions } from './version'
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -18,102 +25,148 @@ import path from 'node:path'
 const __dirname: string = fileURLToPath(new URL('.', import.meta.url))
 const root: string = path.resolve(__dirname, '../..')
 const historyFile: string = path.join(root, 'benchmark/results/build-history.json')
+const compareScript: string = path.join(__dirname, 'compare-builds.ts')
 
-interface BenchmarkEntry {
-  vueVersion: string
-  [key: string]: unknown
+/** Working directory for per-version artifacts, histories and logs (gitignored) */
+const workDir: string = path.join(root, 'benchmark/artifacts/backfill')
+const stateFile: string = path.join(workDir, 'state.json')
+
+/** Number of versions benchmarked at the same time */
+const concurrency: number = Number(getArgValues('--concurrency')[0] ?? os.availableParallelism())
+
+/** Benchmark versions that failed in an earlier run again */
+const retryFailed: boolean = process.argv.includes('--retry-failed')
+
+/** Ignore the state file and start over */
+const isFresh: boolean = process.argv.includes('--fresh')
+
+/** Arguments forwarded to compare-builds.ts (e.g. `--fixture list`, `--runs 3`) */
+const forwardedArgs: string[] = ['--fixture', '--runs'].flatMap((flag: string) =>
+  getArgValues(flag).length > 0 ? [flag, getArgValues(flag).join(',')] : []
+)
+
+/** Lines of a failed version's log printed to the console */
+const LOG_TAIL_LINES = 15
+
+interface RunResult {
+  /** Whether compare-builds.ts exited successfully */
+  ok: boolean
+  /** Entries it recorded, including entries of fixtures that failed to build */
+  entries: BenchmarkEntry[]
 }
 
-interface BenchmarkHistory {
-  benchmarks: BenchmarkEntry[]
+interface VersionState {
+  status: 'done' | 'failed'
+  finishedAt: string
+  /** Log file of the run, relative to the project root */
+  log: string
+}
+
+interface BackfillState {
+  versions: Record<string, VersionState>
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Version Utilities (copied from compare-builds.ts for independence)
+// History & State
 // ─────────────────────────────────────────────────────────────────────────────
 
-function parseVersion(version: string): {
-  major: number
-  minor: number
-  patch: number
-  prerelease: string | null
-  prereleaseNum: number
-} {
-  const match = version.match(/^(\d+)\.(\d+)\.(\d+)(?:-(alpha|beta|rc)\.(\d+))?$/)
-  if (!match) {
-    return { major: 0, minor: 0, patch: 0, prerelease: null, prereleaseNum: 0 }
-  }
-  return {
-    major: parseInt(match[1], 10),
-    minor: parseInt(match[2], 10),
-    patch: parseInt(match[3], 10),
-    prerelease: match[4] || null,
-    prereleaseNum: match[5] ? parseInt(match[5], 10) : 0,
+function getExistingVersions(): Set<string> {
+  const history: BenchmarkHistory = readHistory(historyFile)
+  const benchmarks = history.benchmarks.filter((b) => b.mode === 'benchmark')
+  const versions = new Set(benchmarks.map((b) => b.vueVersion))
+
+  // With --retry-failed, versions with a recorded build failure are benchmarked again
+  if (retryFailed) {
+    for (const b of benchmarks) {
+      if (!isMeasured(b)) versions.delete(b.vueVersion)
+    }
   }
+  return versions
 }
 
-function compareVersions(a: string, b: string): number {
-  const vA = parseVersion(a)
-  const vB = parseVersion(b)
-
-  if (vA.major !== vB.major) return vA.major - vB.major
-  if (vA.minor !== vB.minor) return vA.minor - vB.minor
-  if (vA.patch !== vB.patch) return vA.patch - vB.patch
-
-  if (vA.prerelease === null && vB.prerelease !== null) return 1
-  if (vA.prerelease !== null && vB.prerelease === null) return -1
-
-  if (vA.prerelease !== null && vB.prerelease !== null) {
-    const prereleaseOrder: Record<string, number> = { alpha: 1, beta: 2, rc: 3 }
-    const orderA = prereleaseOrder[vA.prerelease] || 0
-    const orderB = prereleaseOrder[vB.prerelease] || 0
-    if (orderA !== orderB) return orderA - orderB
-    return vA.prereleaseNum - vB.prereleaseNum
+function readState(): BackfillState {
+  if (isFresh) return { versions: {} }
+  try {
+    return JSON.parse(readFileSync(stateFile, 'utf8')) as BackfillState
+  } catch {
+    return { versions: {} }
   }
+}
 
-  return 0
+/**
+ * Persist the state atomically, so an interruption never leaves it half-written
+ */
+function writeState(state: BackfillState): void {
+  mkdirSync(workDir, { recursive: true })
+  writeFileSync(`${stateFile}.tmp`, JSON.stringify(state, null, 2))
+  renameSync(`${stateFile}.tmp`, stateFile)
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Core Functions
 // ─────────────────────────────────────────────────────────────────────────────
 
-function getAlphaVersionsFromNpm(): string[] {
-  console.log('Fetching Vue 3.6 alpha versions from npm...')
+function getVersionsFromNpm(): string[] {
+  console.log('Fetching Vue 3.6 versions from npm...')
   const output = execSync('npm info vue versions --json', { encoding: 'utf8' })
   const allVersions: string[] = JSON.parse(output)
   return allVersions
-    .filter((v: string) => v.startsWith('3.6.0-alpha'))
+    .filter((v: string) => v.startsWith('3.6.'))
     .sort(compareVersions)
 }
 
-function readHistory(): BenchmarkHistory {
-  try {
-    return JSON.parse(readFileSync(historyFile, 'utf8')) as BenchmarkHistory
-  } catch {
-    return { benchmarks: [] }
-  }
-}
-
-function getExistingVersions(): Set<string> {
-  const history = readHistory()
-  return new Set(history.benchmarks.map((b) => b.vueVersion))
-}
-
-function installVersion(version: string): void {
-  console.log(`\nInstalling vue@${version}...`)
-  execSync(`npm install vue@${version}`, { cwd: root, stdio: 'inherit' })
+/**
+ * Benchmark one version in its own artifacts directory and history file
+ * Output goes to a log file instead of the console, since runs overlap.
+ * @param version - Vue version to benchmark
+ * @param log - File receiving the run's stdout and stderr
+ * @returns Exit status and the entries recorded by the run
+ */
+function runBenchmark(version: string, log: string): Promise<RunResult> {
+  const versionDir: string = path.join(workDir, version)
+  const versionHistory: string = path.join(versionDir, 'history.json')
+  rmSync(versionDir, { recursive: true, force: true })
+  mkdirSync(path.dirname(log), { recursive: true })
+
+  const args: string[] = [
+    '--import', 'tsx', compareScript,
+    '--vue', version,
+    '--artifacts', path.join(versionDir, 'artifacts'),
+    '--history', versionHistory,
+    ...forwardedArgs,
+  ]
+
+  return new Promise((resolve) => {
+    const output = createWriteStream(log)
+    const child = spawn(process.execPath, args, { cwd: root, stdio: ['ignore', 'pipe', 'pipe'] })
+    child.stdout.pipe(output, { end: false })
+    child.stderr.pipe(output, { end: false })
+
+    child.on('error', (err: Error) => {
+      output.end(`\n${err.message}\n`)
+      resolve({ ok: false, entries: [] })
+    })
+    child.on('close', (code: number | null) => {
+      try {
+        const entries: BenchmarkEntry[] = readHistory(versionHistory).benchmarks
+        output.end()
+        resolve({ ok: code === 0 && entries.length > 0, entries })
+      } catch (err) {
+        output.end(`\n${err instanceof Error ? err.message : String(err)}\n`)
+        resolve({ ok: false, entries: [] })
+      }
+    })
+  })
 }
 
-function runBenchmark(): boolean {
-  console.log('Running benchmark...')
-  try {
-    execSync('npm run benchmark', { cwd: root, stdio: 'inherit' })
-    return true
-  } catch {
-    console.error('Benchmark failed for this version')
-    return false
-  }
+/**
+ * Print the last lines of a failed version's log
+ */
+function printLogTail(version: string, log: string): void {
+  if (!existsSync(log)) return
+  const lines: string[] = readFileSync(log, 'utf8').trimEnd().split('\n').slice(-LOG_TAIL_LINES)
+  console.log(`--- ${version}: last ${lines.length} lines of ${path.relative(root, log)} ---`)
+  console.log(lines.join('\n'))
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -125,15 +178,30 @@ async function main(): Promise<void> {
   console.log('Vue Vapor Benchmark Backfill')
   console.log('='.repeat(60))
 
-  // Get all available alpha versions
-  const allVersions = getAlphaVersionsFromNpm()
-  console.log(`Found ${allVersions.length} alpha versions: ${allVersions.join(', ')}`)
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`--concurrency must be a positive integer, got ${getArgValues('--concurrency')[0]}`)
+  }
+
+  // Get all available versions
+  const allVersions = getVersionsFromNpm()
+  console.log(`Found ${allVersions.length} versions: ${allVersions.join(', ')}`)
 
-  // Find versions not yet benchmarked
+  // Find versions not yet benchmarked, and not settled by an earlier run
   const existingVersions = getExistingVersions()
   console.log(`Already benchmarked: ${existingVersions.size > 0 ? [...existingVersions].join(', ') : 'none'}`)
 
-  const missingVersions = allVersions.filter((v) => !existingVersions.has(v))
+  const state = readState()
+  const previouslyFailed = allVersions.filter((v) => state.versions[v]?.status === 'failed')
+  if (previouslyFailed.length > 0 && !retryFailed) {
+    console.log(`Skipping versions that failed before (use --retry-failed): ${previouslyFailed.join(', ')}`)
+  }
+
+  const missingVersions = allVersions.filter((v) => {
+    if (existingVersions.has(v)) return false
+    const previous = state.versions[v]
+    if (previous?.status === 'done') return false
+    return previous?.status !== 'failed' || retryFailed
+  })
 
   if (missingVersions.length === 0) {
     console.log('\nAll versions already benchmarked!')
@@ -141,49 +209,53 @@ async function main(): Promise<void> {
   }
 
   console.log(`\nMissing versions to benchmark: ${missingVersions.join(', ')}`)
-  console.log(`\nStarting backfill of ${missingVersions.length} version(s)...\n`)
-
-  const results: { version: string; success: boolean }[] = []
-
-  // Benchmark each missing version (oldest first)
-  for (let i = 0; i < missingVersions.length; i++) {
-    const version = missingVersions[i]
-
-    console.log('='.repeat(60))
-    console.log(`[${i + 1}/${missingVersions.length}] Benchmarking Vue ${version}`)
-    console.log('='.repeat(60))
-
-    installVersion(version)
-    const success = runBenchmark()
-    results.push({ version, success })
-
-    if (success) {
-      console.log(`\nCompleted Vue ${version}\n`)
-    } else {
-      console.log(`\nSkipping Vue ${version} (build failed)\n`)
+  console.log(`\nStarting backfill of ${missingVersions.length} version(s) with concurrency ${concurrency}...\n`)
+
+  // Workers take versions from the queue oldest first
+  const queue = [...missingVersions]
+  let finished = 0
+
+  async function worker(): Promise<void> {
+    for (let version = queue.shift(); version !== undefined; version = queue.shift()) {
+      const log: string = path.join(workDir, 'logs', `${version}.log`)
+      console.log(`Benchmarking Vue ${version} (log: ${path.relative(root, log)})`)
+
+      // Build failures are recorded with a status, so they are merged as well
+      const { ok, entries } = await runBenchmark(version, log)
+      if (entries.length > 0) {
+        writeHistory(historyFile, entries)
+      }
+      state.versions[version] = {
+        status: ok ? 'done' : 'failed',
+        finishedAt: new Date().toISOString(),
+        log: path.relative(root, log),
+      }
+      writeState(state)
+
+      finished++
+      console.log(`[${finished}/${missingVersions.length}] ${ok ? 'Completed' : 'Failed'} Vue ${version}`)
+      if (!ok) {
+        printLogTail(version, log)
+      }
     }
   }
 
+  await Promise.all(Array.from({ length: Math.min(concurrency, missingVersions.length) }, worker))
+
   // Report results
-  const failed = results.filter(r => !r.success).map(r => r.version)
-  const successCount = results.filter(r => r.success).length
+  const failed = missingVersions.filter((v) => state.versions[v]?.status === 'failed')
+  const successCount = missingVersions.length - failed.length
 
-  console.log(`\nBenchmarked ${successCount}/${results.length} version(s) successfully.`)
+  console.log(`\nBenchmarked ${successCount}/${missingVersions.length} version(s) successfully.`)
   if (failed.length > 0) {
     console.log(`Failed versions: ${failed.join(', ')}`)
-    console.log('(These early alpha versions may have bugs that were fixed in later releases.)')
+    console.log(`Logs: ${path.relative(root, path.join(workDir, 'logs'))} (rerun with --retry-failed to try them again)`)
   }
 
-  // Restore to latest version
-  const latestVersion = allVersions[allVersions.length - 1]
-  console.log('='.repeat(60))
-  console.log(`Restoring to latest version: ${latestVersion}`)
-  console.log('='.repeat(60))
-  installVersion(latestVersion)
-
   console.log('\n' + '='.repeat(60))
   console.log('Backfill complete!')
   console.log(`History file updated: ${path.relative(root, historyFile)}`)
+  console.log(`State file: ${path.relative(root, stateFile)}`)
   console.log('='.repeat(60))
 }
 
@@ -0,0 +1,284 @@
+#!/usr/bin/env node
+
+/**
+ * Render the dashboard page (docs/index.html) from the local benchmark history.
+ * Sizes, the history table and an SVG trend chart are baked into
+ * benchmark/site/template.html at build time, so the page needs no network
+ * access and can be previewed offline. The progress target and scale come
+ * from benchmark/site.json.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import path from 'node:path'
+import { getArgValues } from './cli'
+import { FAILURE_LABELS, isMeasured, readHistory, type BenchmarkEntry, type MeasuredEntry, type SizeMetrics } from './history'
+import { compareVersions } from './version'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+const __dirname: string = fileURLToPath(new URL('.', import.meta.url))
+const root: string = path.resolve(__dirname, '../..')
+const historyFile: string = path.resolve(root, getArgValues('--history')[0] ?? 'benchmark/results/build-history.json')
+const configFile: string = path.resolve(root, getArgValues('--config')[0] ?? 'benchmark/site.json')
+/** Output next to docs/styles.css, which the page links relatively */
+const outFile: string = path.join(root, 'docs/index.html')
+const templateFile: string = path.join(root, 'benchmark/site/template.html')
+
+interface SiteConfig {
+  /** Fixture the dashboard tracks; other fixtures are report-only */
+  fixture: string
+  /** Vapor gzipped size the progress bar counts as done, in KB */
+  targetKB: number
+  /** Vapor gzipped size at which the progress bar starts, in KB */
+  maxDisplayKB: number
+}
+
+/** Trend chart geometry in SVG user units */
+const CHART = { width: 720, height: 300, left: 48, right: 16, top: 16, bottom: 72 }
+
+/** Most version labels shown on the chart's x axis */
+const MAX_X_LABELS = 12
+
+/** KB between horizontal grid lines of the chart */
+const GRID_STEP_KB = 5
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Data
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read and check the site configuration
+ * @returns Parsed configuration
+ */
+function readConfig(): SiteConfig {
+  const config = JSON.parse(readFileSync(configFile, 'utf8')) as SiteConfig
+  if (typeof config.fixture !== 'string' || !(config.targetKB >= 0) || !(config.maxDisplayKB > config.targetKB)) {
+    throw new Error(`${path.relative(root, configFile)} needs a fixture, a targetKB and a maxDisplayKB above targetKB`)
+  }
+  return config
+}
+
+/**
+ * Newest measured entry of every version, for the stats and the chart
+ * @param entries - Benchmark entries of the tracked fixture in history order
+ * @returns One entry per version, oldest version first
+ */
+function latestPerVersion(entries: BenchmarkEntry[]): MeasuredEntry[] {
+  const byVersion: Map<string, MeasuredEntry> = new Map()
+  for (const entry of entries.filter(isMeasured)) {
+    byVersion.set(entry.vueVersion, entry)
+  }
+  return [...byVersion.values()].sort((a: MeasuredEntry, b: MeasuredEntry) => compareVersions(a.vueVersion, b.vueVersion))
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Formatting
+// ─────────────────────────────────────────────────────────────────────────────
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function formatKB(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)} KB`
+}
+
+/**
+ * Brotli and zstd were added later; older entries only have raw and gzip sizes
+ */
+function formatOptionalKB(bytes: number | undefined): string {
+  return bytes === undefined ? '—' : formatKB(bytes)
+}
+
+/**
+ * Format a size difference with its sign
+ * @param delta - Difference in bytes
+ * @returns Signed string (e.g. "-5.3 KB", "+0.4 KB" or "0.0 KB")
+ */
+function formatSignedKB(delta: number): string {
+  return `${delta > 0 ? '+' : delta < 0 ? '-' : ''}${formatKB(Math.abs(delta))}`
+}
+
+/**
+ * Raw and optional compressed sizes under a stat card
+ */
+function formatSizeSub(sizes: SizeMetrics): string {
+  const parts: string[] = [`${formatKB(sizes.raw)} raw`]
+  if (sizes.brotli !== undefined) parts.push(`${formatKB(sizes.brotli)} br`)
+  if (sizes.zstd !== undefined) parts.push(`${formatKB(sizes.zstd)} zstd`)
+  return parts.join(' · ')
+}
+
+/**
+ * Format an entry date; UTC keeps the page identical wherever it is rendered
+ */
+function formatDate(timestamp: string): string {
+  return new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rendering
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Render the Vapor and Classic gzipped sizes of every version as an SVG line chart
+ * @param points - One entry per version, oldest first
+ * @param config - Site configuration (target line and minimum scale)
+ * @returns SVG markup, or a placeholder without measured versions
+ */
+function renderTrendChart(points: MeasuredEntry[], config: SiteConfig): string {
+  if (points.length === 0) {
+    return `<p data-slot="loading">No measured versions yet</p>`
+  }
+
+  const { width, height, left, right, top, bottom } = CHART
+  const plotWidth: number = width - left - right
+  const plotHeight: number = height - top - bottom
+  const largestKB: number = Math.max(
+    config.maxDisplayKB,
+    ...points.flatMap((p: MeasuredEntry) => [p.vapor.gzipped / 1024, p.classic.gzipped / 1024])
+  )
+  const maxKB: number = Math.ceil(largestKB / GRID_STEP_KB) * GRID_STEP_KB
+
+  const x = (i: number): number =>
+    left + (points.length === 1 ? plotWidth / 2 : (i * plotWidth) / (points.length - 1))
+  const y = (kb: number): number => top + plotHeight - (kb / maxKB) * plotHeight
+  const round = (n: number): string => n.toFixed(1)
+
+  const grid: string[] = []
+  for (let kb = 0; kb <= maxKB; kb += GRID_STEP_KB) {
+    grid.push(
+      `<line x1="${left}" x2="${width - right}" y1="${round(y(kb))}" y2="${round(y(kb))}" />`,
+      `<text x="${left - 8}" y="${round(y(kb) + 4)}" text-anchor="end">${kb}</text>`,
+    )
+  }
+
+  const labelStep: number = Math.ceil(points.length / MAX_X_LABELS)
+  const labels: string[] = points
+    .map((p: MeasuredEntry, i: number) => ({ version: p.vueVersion, i }))
+    .filter(({ i }) => i % labelStep === 0 || i === points.length - 1)
+    .map(({ version, i }) => {
+      const labelY: number = height - bottom + 16
+      return `<text x="${round(x(i))}" y="${labelY}" text-anchor="end" transform="rotate(-40 ${round(x(i))} ${labelY})">${escapeHtml(version)}</text>`
+    })
+
+  const series = (name: 'vapor' | 'classic', label: string): string[] => {
+    const coords: string[] = points.map((p: MeasuredEntry, i: number) => `${round(x(i))},${round(y(p[name].gzipped / 1024))}`)
+    return [
+      `<polyline data-series="${name}" points="${coords.join(' ')}" />`,
+      ...points.map((p: MeasuredEntry, i: number) =>
+        `<circle data-series="${name}" cx="${round(x(i))}" cy="${round(y(p[name].gzipped / 1024))}" r="3"><title>${label} ${escapeHtml(p.vueVersion)}: ${formatKB(p[name].gzipped)}</title></circle>`
+      ),
+    ]
+  }
+
+  return [
+    `<svg data-slot="trend-chart" viewBox="0 0 ${width} ${height}" role="img" aria-label="Gzipped size of the Vapor and Classic builds per Vue version">`,
+    `  <g data-slot="grid">`,
+    ...grid.map((line: string) => `    ${line}`),
+    `  </g>`,
+    `  <line data-series="target" x1="${left}" x2="${width - right}" y1="${round(y(config.targetKB))}" y2="${round(y(config.targetKB))}" />`,
+    ...series('classic', 'Classic').map((line: string) => `  ${line}`),
+    ...series('vapor', 'Vapor').map((line: string) => `  ${line}`),
+    `  <g data-slot="axis">`,
+    ...labels.map((line: string) => `    ${line}`),
+    `  </g>`,
+    `</svg>`,
+  ].join('\n        ')
+}
+
+/**
+ * Render the history table rows, newest version first
+ * @param entries - Benchmark entries of the tracked fixture
+ * @returns Table rows, including rows for versions that failed to build
+ */
+function renderHistoryRows(entries: BenchmarkEntry[]): string {
+  if (entries.length === 0) {
+    return `              <tr>\n                <td colspan="7"><span data-slot="loading">No benchmarks yet</span></td>\n              </tr>`
+  }
+
+  const sorted: BenchmarkEntry[] = [...entries].sort((a: BenchmarkEntry, b: BenchmarkEntry) =>
+    compareVersions(b.vueVersion, a.vueVersion) || b.timestamp.localeCompare(a.timestamp)
+  )
+
+  return sorted.map((entry: BenchmarkEntry, i: number) => {
+    const cells: string[] = isMeasured(entry)
+      ? [
+          `<td${i === 0 ? ' data-highlight' : ''}>${escapeHtml(entry.vueVersion)}</td>`,
+          `<td${i === 0 ? ' data-highlight' : ''}>${formatKB(entry.vapor.gzipped)}</td>`,
+          `<td data-dim>${formatKB(entry.classic.gzipped)}</td>`,
+          `<td data-dim>${formatOptionalKB(entry.vapor.brotli)}</td>`,
+          `<td data-dim>${formatOptionalKB(entry.vapor.zstd)}</td>`,
+          `<td${entry.delta.gzipped < 0 ? ' data-highlight' : ''}>${formatSignedKB(entry.delta.gzipped)}</td>`,
+          `<td data-dim>${formatDate(entry.timestamp)}</td>`,
+        ]
+      : [
+          `<td>${escapeHtml(entry.vueVersion)}</td>`,
+          `<td colspan="5" data-slot="failure">✕ ${FAILURE_LABELS[entry.status]}</td>`,
+          `<td data-dim>${formatDate(entry.timestamp)}</td>`,
+        ]
+    const attributes: string = isMeasured(entry) ? '' : ` data-failed title="${escapeHtml(entry.error)}"`
+    return [`              <tr${attributes}>`, ...cells.map((cell: string) => `                ${cell}`), `              </tr>`].join('\n')
+  }).join('\n')
+}
+
+/**
+ * Fill the `{{name}}` placeholders of the template
+ * @param template - Template source
+ * @param values - Value per placeholder, inserted as-is (escape beforehand)
+ * @returns Rendered page
+ * @throws Error when the template uses a placeholder without a value
+ */
+function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_match: string, name: string) => {
+    if (!(name in values)) {
+      throw new Error(`${path.relative(root, templateFile)} uses unknown placeholder {{${name}}}`)
+    }
+    return values[name]
+  })
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main Execution
+// ─────────────────────────────────────────────────────────────────────────────
+
+function main(): void {
+  const config: SiteConfig = readConfig()
+  const entries: BenchmarkEntry[] = readHistory(historyFile).benchmarks.filter((entry: BenchmarkEntry) =>
+    entry.mode === 'benchmark' && entry.fixture === config.fixture
+  )
+  const versions: MeasuredEntry[] = latestPerVersion(entries)
+  const latest: MeasuredEntry | undefined = versions.slice(-1)[0]
+
+  // Progress is inverted: the closer to targetKB, the more progress, on a targetKB to maxDisplayKB scale
+  const vaporKB: number | undefined = latest && latest.vapor.gzipped / 1024
+  const progress: number | undefined = vaporKB === undefined
+    ? undefined
+    : Math.max(0, Math.min(100, ((config.maxDisplayKB - vaporKB) / (config.maxDisplayKB - config.targetKB)) * 100))
+
+  const page: string = renderTemplate(readFileSync(templateFile, 'utf8'), {
+    generatedNotice: `<!-- Generated by \`npm run benchmark:site\` from benchmark/site/template.html and ${path.relative(root, historyFile).split(path.sep).join('/')}; do not edit -->`,
+    targetKB: String(config.targetKB),
+    maxDisplayKB: String(config.maxDisplayKB),
+    vaporSize: latest ? formatKB(latest.vapor.gzipped) : 'No data',
+    vaporSub: latest ? formatSizeSub(latest.vapor) : '',
+    classicSize: latest ? formatKB(latest.classic.gzipped) : 'No data',
+    classicSub: latest ? formatSizeSub(latest.classic) : '',
+    delta: latest ? formatSignedKB(latest.delta.gzipped) : '—',
+    deltaAccent: latest && latest.delta.gzipped < 0 ? ' data-accent' : '',
+    latestVersion: latest ? `Vue ${escapeHtml(latest.vueVersion)}` : '',
+    progressPercent: progress === undefined ? '--' : `${progress.toFixed(0)}% there`,
+    progressWidth: (progress ?? 0).toFixed(1),
+    progressCurrent: vaporKB === undefined ? '--' : `${vaporKB.toFixed(1)} KB`,
+    trendChart: renderTrendChart(versions, config),
+    historyRows: renderHistoryRows(entries),
+  })
+
+  writeFileSync(outFile, page)
+  console.log(`Dashboard with ${versions.length} version(s) saved to ${path.relative(root, outFile)}`)
+}
+
+main()
@@ -0,0 +1,99 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Build Timing
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Wall-clock timings of the two build steps (`vue-tsc -b` and `vite build`)
+// and, with --sfc-timing, of every SFC compile. SFC compile time is measured
+// around the transform hook of @vitejs/plugin-vue for the main `.vue` request,
+// which parses the SFC and compiles its script and template; style and other
+// sub-requests (`?vue&type=...`) are not included.
+
+import path from 'node:path'
+import { performance } from 'node:perf_hooks'
+import type { Plugin, ResolvedConfig } from 'vite'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Type Definitions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Wall-clock timings of one variant's build in milliseconds */
+export interface BuildTimings {
+  /**
+   * `vue-tsc -b` before this variant's build; only in entries recorded before
+   * the type-check ran once per fixture (see `buildTime.typeCheck`)
+   */
+  typeCheck?: number
+  /** `vite build` of the fixture */
+  build: number
+  /** Compile time per SFC, relative to the project root; present with --sfc-timing */
+  sfcCompile?: Record<string, number>
+}
+
+type TransformHandler = (this: unknown, ...args: unknown[]) => unknown
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Round a duration to a tenth of a millisecond for storage
+ */
+export function roundMs(ms: number): number {
+  return Math.round(ms * 10) / 10
+}
+
+/**
+ * Median of durations, used to summarize repeated builds
+ * @param values - Durations in milliseconds (at least one)
+ * @returns Median duration
+ */
+export function medianMs(values: number[]): number {
+  const sorted: number[] = [...values].sort((a: number, b: number) => a - b)
+  const mid: number = Math.floor(sorted.length / 2)
+  return roundMs(sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid])
+}
+
+/**
+ * Vite plugin that times the SFC compiles of @vitejs/plugin-vue
+ * Wraps the transform hook of the `vite:vue` plugin once the config is
+ * resolved, so it must be added to the same build as plugin-vue.
+ * @param root - Project root; reported paths are relative to it
+ * @param onResult - Receives the compile time per SFC when the bundle is generated
+ * @returns Plugin to add to the build
+ */
+export function sfcTimingPlugin(root: string, onResult: (sfcCompile: Record<string, number>) => void): Plugin {
+  const timings: Record<string, number> = {}
+
+  return {
+    name: 'vapor-benchmark:sfc-timing',
+    apply: 'build',
+    configResolved(config: ResolvedConfig) {
+      const vuePlugin = config.plugins.find((plugin) => plugin.name === 'vite:vue')
+      const hook = vuePlugin?.transform
+      if (!vuePlugin || !hook) {
+        throw new Error('--sfc-timing needs @vitejs/plugin-vue in the Vite config')
+      }
+
+      const handler: TransformHandler = (typeof hook === 'function' ? hook : hook.handler) as TransformHandler
+      const wrapped: TransformHandler = async function (this: unknown, ...args: unknown[]) {
+        const id: string = args[1] as string
+        if (!id.endsWith('.vue')) return handler.apply(this, args)
+
+        const start: number = performance.now()
+        try {
+          return await handler.apply(this, args)
+        } finally {
+          const file: string = path.relative(root, id).split(path.sep).join('/')
+          timings[file] = roundMs((timings[file] ?? 0) + performance.now() - start)
+        }
+      }
+
+      // Mutating the resolved plugin is how the hook reaches the bundler
+      const target = vuePlugin as { transform: unknown }
+      target.transform = typeof hook === 'function' ? wrapped : { ...hook, handler: wrapped }
+    },
+    generateBundle() {
+      onResult({ ...timings })
+    },
+  }
+}
@@ -0,0 +1,25 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// CLI Arguments
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Argument parsing shared by the benchmark scripts, which take flags only as
+// `--flag value` or `--flag=value`.
+
+/**
+ * Collect all values passed for a flag
+ * Supports `--flag value`, `--flag=value` and comma-separated lists
+ * @param flag - Flag name including leading dashes
+ * @returns Values in the order given
+ */
+export function getArgValues(flag: string): string[] {
+  const values: string[] = []
+  const args: string[] = process.argv.slice(2)
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === flag && args[i + 1] !== undefined) {
+      values.push(args[++i])
+    } else if (args[i].startsWith(`${flag}=`)) {
+      values.push(args[i].slice(flag.length + 1))
+    }
+  }
+  return values.flatMap((value: string) => value.split(',')).filter(Boolean)
+}
@@ -5,52 +5,138 @@
 // ─────────────────────────────────────────────────────────────────────────────
 
 import { execSync } from 'node:child_process'
-import { mkdirSync, readFileSync, readdirSync, renameSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { createHash } from 'node:crypto'
+import { appendFileSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, renameSync, rmSync, writeFileSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { performance } from 'node:perf_hooks'
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
-import { gzipSync } from 'node:zlib'
+import zlib, { brotliCompressSync, constants as zlibConstants, gzipSync } from 'node:zlib'
+import { build, normalizePath, type Plugin } from 'vite'
+import { medianMs, roundMs, sfcTimingPlugin, type BuildTimings } from './build-timing'
+import { getArgValues } from './cli'
+import { loadFixtures, type Fixture } from './fixtures'
+import {
+  FAILURE_LABELS,
+  findPreviousEntry,
+  isMeasured,
+  readHistory,
+  writeHistory,
+  type AssetType,
+  type BenchmarkEntry,
+  type BenchmarkHistory,
+  type BuildMetrics,
+  type DeltaMetrics,
+  type FailedEntry,
+  type FileMetrics,
+  type MeasuredEntry,
+  type RepeatMetrics,
+  type SizeMetrics,
+  type TypeSizes,
+} from './history'
+import {
+  getScenarios,
+  readInteropConfig,
+  selectVaporSfcs,
+  toInteropEntry,
+  type InteropConfig,
+  type InteropMetrics,
+  type InteropScenario,
+} from './interop'
+import {
+  describeProfile,
+  getProfileOverrides,
+  readProfileConfig,
+  selectProfiles,
+  type BuildProfile,
+  type ProfileConfig,
+  type ProfileOverrides,
+} from './profiles'
+import { loadProject, type Project } from './project'
+import { BASELINE_PROBE, PROBES, PROBE_FIXTURE_PREFIX, selectProbes, writeProbe, type Probe } from './probes'
+import { OUTPUT_FORMATS, createSummary, formatCsv, getFailedSteps, type BenchmarkSummary, type FixtureSummary, type OutputFormat } from './summary'
+import { APP_PACKAGE, VIRTUAL_PACKAGE, moduleAttributionPlugin, type PackageSizes } from './module-attribution'
+import { measureMemory, mountHookPlugin, type MemoryMetrics } from './memory-benchmark'
+import { measureRuntime, type RuntimeMetrics, type RuntimeOptions, type TimingStats } from './runtime-benchmark'
+import { pairModules, renderSourceDiffPage, type FixtureModules } from './source-diff'
+import {
+  SSR_ENTRY_ID,
+  SSR_SERVER_FILE,
+  hydrationEntryPlugin,
+  isVueImport,
+  renderServerBundle,
+  ssrEntryPlugin,
+  type SsrMetrics,
+} from './ssr-benchmark'
+import { vaporOutputPlugin, type CompiledModule } from './vapor-output'
+import { resolveVueSource, vueSourcePlugin, writeTypeCheckConfig, type TypeCheckConfig, type VueSource } from './vue-source'
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Type Definitions
 // ─────────────────────────────────────────────────────────────────────────────
 
-interface BenchmarkEntry {
-  timestamp: string
-  mode: 'benchmark' | 'inspect'
-  vapor: {
-    raw: number
-    gzipped: number
-  }
-  classic: {
-    raw: number
-    gzipped: number
-  }
-  delta: {
-    raw: number
-    gzipped: number
-  }
-  vueVersion: string
+/**
+ * Size budgets enforced by check mode; omitted limits are not checked
+ * All limits apply to the Vapor build's gzipped size
+ */
+interface Budget {
+  /** Absolute maximum Vapor gzipped size in bytes */
+  maxVaporGzipped?: number
+  /** Maximum growth in percent against the previous version in history */
+  maxGrowthPercent?: number
+  /** Minimum saving of Vapor over Classic in percent of the Classic size */
+  minSavingPercent?: number
 }
 
-interface BenchmarkHistory {
-  benchmarks: BenchmarkEntry[]
+interface BudgetConfig {
+  default: Budget
+  /** Per-fixture overrides, merged over the default budget */
+  fixtures?: Record<string, Budget>
 }
 
-interface PackageJson {
-  dependencies: {
-    vue: string
-    [key: string]: string
-  }
-  [key: string]: unknown
+interface BudgetResult {
+  fixture: string
+  check: string
+  actual: string
+  limit: string
+  passed: boolean
+}
+
+/** Output of one Vite build besides the files in dist/ */
+interface BuildResult {
+  packages: PackageSizes
+  /** `vite build` wall time in milliseconds */
+  build: number
+  sfcCompile?: Record<string, number>
+  /** How each app module compiled; Vapor builds only */
+  vaporOutput?: CompiledModule[]
+}
+
+/** Measurements besides the sizes that an entry may carry */
+type OptionalMeasurements = Pick<MeasuredEntry, 'buildTime' | 'runtime' | 'memory' | 'interop' | 'ssr' | 'vaporOutput'>
+
+/** Measured output of one variant, over all --runs */
+interface VariantBuild {
+  metrics: BuildMetrics
+  timings: BuildTimings
+  /** Compiled modules of the last run; Vapor builds only */
+  vaporOutput?: CompiledModule[]
 }
 
 interface PathConfig {
   dist: string
   artifacts: string
-  vapor: string
-  classic: string
   report: string
+  summary: string
+  csv: string
+  sourceDiff: string
+  probeReport: string
+  profileReport: string
   history: string
+  interop: string
+  profiles: string
+  budgets: string
+  budgetReport: string
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -60,74 +146,332 @@ interface PathConfig {
 const __dirname: string = fileURLToPath(new URL('.', import.meta.url))
 const root: string = path.resolve(__dirname, '../..')
 const isInspectMode: boolean = process.argv.includes('--inspect')
+const isCheckMode: boolean = process.argv.includes('--check')
+const isRuntimeMode: boolean = process.argv.includes('--runtime')
+const isMemoryMode: boolean = process.argv.includes('--memory')
+const isProbeMode: boolean = process.argv.includes('--probe')
+
+/** Build profiles from profiles.json to build every fixture with (`all` for every profile) */
+const profileFilter: string[] = getArgValues('--profile')
+const isProfileMode: boolean = profileFilter.length > 0
+const isInteropMode: boolean = process.argv.includes('--interop')
+const isSsrMode: boolean = process.argv.includes('--ssr')
+const fixtureFilter: string[] = getArgValues('--fixture')
+const featureFilter: string[] = getArgValues('--feature')
+const vueSpec: string | undefined = getArgValues('--vue')[0]
+
+/** Project outside this repository to benchmark instead of the registered fixtures */
+const projectDir: string | undefined = getArgValues('--project')[0]
+
+/** Also time every SFC compile of @vitejs/plugin-vue */
+const isSfcTiming: boolean = process.argv.includes('--sfc-timing')
+
+/** Builds per variant; more than one records the size spread and whether output is deterministic */
+const runs: number = Number(getArgValues('--runs')[0] ?? 1)
+
+const artifactsOverride: string | undefined = getArgValues('--artifacts')[0]
+const artifactsDir: string = path.resolve(root, artifactsOverride ?? 'benchmark/artifacts')
+// A project's entries go to its own history, never into the tracked one
+const historyFile: string = getArgValues('--history')[0] !== undefined
+  ? path.resolve(root, getArgValues('--history')[0])
+  : projectDir ? path.join(artifactsDir, 'build-history.json') : path.resolve(root, 'benchmark/results/build-history.json')
+
+/** Also append the markdown report (or budget report) to $GITHUB_STEP_SUMMARY */
+const isStepSummary: boolean = process.argv.includes('--step-summary')
 
-const artifactsDir: string = path.join(root, 'benchmark/artifacts')
-const historyFile: string = path.join(root, 'benchmark/results/build-history.json')
-
-/** Byte threshold for determining trend direction in reports */
+/**
+ * Byte threshold for determining trend direction in reports
+ * Only used for entries built once; repeated builds (--runs) use their observed spread
+ */
 const TREND_THRESHOLD_BYTES = 100
 
 /** Number of recent benchmarks to display in history table */
 const HISTORY_DISPLAY_LIMIT = 10
 
+/** Number of files to display in the largest files table */
+const LARGEST_FILES_LIMIT = 10
+
+/** Type-check command, also the step its errors are named by */
+const TYPE_CHECK_STEP = 'vue-tsc -b'
+
+/** Trailing lines and characters of a failed build's output kept in history */
+const ERROR_EXCERPT_LINES = 20
+const ERROR_EXCERPT_CHARS = 2000
+
+const ASSET_TYPES: AssetType[] = ['js', 'css', 'html', 'other']
+
+const runtimeOptions: RuntimeOptions = {
+  samples: Number(getArgValues('--runtime-samples')[0] ?? 20),
+  warmup: Number(getArgValues('--runtime-warmup')[0] ?? 3),
+  updates: Number(getArgValues('--runtime-updates')[0] ?? 100),
+}
+
+/** summary.json of the run whose entries --check checks, instead of the latest version in history */
+const checkSummary: string | undefined = getArgValues('--summary')[0]
+
+/** App instances mounted per build in memory mode */
+const memoryInstances: number = Number(getArgValues('--memory-instances')[0] ?? 200)
+
 const paths: PathConfig = {
-  dist: path.join(root, 'dist'),
+  // A separate artifacts directory gets its own dist so concurrent runs never share one
+  dist: artifactsOverride ? path.join(artifactsDir, 'dist') : path.join(root, 'dist'),
   artifacts: artifactsDir,
-  vapor: path.join(artifactsDir, 'vapor'),
-  classic: path.join(artifactsDir, 'classic'),
   report: path.join(artifactsDir, 'report.md'),
-  history: historyFile
+  summary: path.join(artifactsDir, 'summary.json'),
+  csv: path.join(artifactsDir, 'report.csv'),
+  sourceDiff: path.join(artifactsDir, 'source-diff.html'),
+  probeReport: path.join(artifactsDir, 'probe-report.md'),
+  profileReport: path.join(artifactsDir, 'profile-report.md'),
+  history: historyFile,
+  interop: path.resolve(root, getArgValues('--interop-config')[0] ?? 'benchmark/interop.json'),
+  profiles: path.resolve(root, getArgValues('--profiles-config')[0] ?? 'benchmark/profiles.json'),
+  budgets: path.resolve(root, getArgValues('--budgets')[0] ?? 'benchmark/budgets.json'),
+  budgetReport: path.join(artifactsDir, 'budget-report.md')
 }
 
-const trackedFiles: string[] = [
-  'example/src/main.ts',
-  'example/src/App.vue',
-  'example/src/components/HelloWorld.vue',
-]
+const project: Project | undefined = projectDir ? loadUserProject(projectDir) : undefined
+const fixtures: Fixture[] = project ? [project.fixture] : selectFixtures(loadFixtures(root), fixtureFilter)
+const outputFormats: OutputFormat[] = selectFormats(getArgValues('--format'))
 
-const originals: Map<string, string> = new Map()
-for (const rel of trackedFiles) {
-  originals.set(rel, read(rel))
-}
+/** Vue build under test; resolved from --vue when benchmarking starts */
+let vueSource: VueSource | undefined
 
 // ─────────────────────────────────────────────────────────────────────────────
-// File System Utilities
+// CLI Arguments
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Read a file relative to project root
- * @param relPath - Path relative to project root
- * @returns File contents as string
+ * Restrict the fixture registry to the names requested on the command line
+ * @param all - All registered fixtures
+ * @param names - Requested fixture names (empty selects all)
+ * @returns Selected fixtures in registry order
  */
-function read(relPath: string): string {
-  return readFileSync(path.join(root, relPath), 'utf8')
+function selectFixtures(all: Fixture[], names: string[]): Fixture[] {
+  if (names.length === 0) return all
+
+  const unknown: string[] = names.filter((name: string) => !all.some((f: Fixture) => f.name === name))
+  if (unknown.length > 0) {
+    const known: string = all.map((f: Fixture) => f.name).join(', ')
+    throw new Error(`Unknown fixture(s): ${unknown.join(', ')} (available: ${known})`)
+  }
+  return all.filter((f: Fixture) => names.includes(f.name))
+}
+
+/**
+ * Describe the project passed with --project as a fixture
+ * @param dir - Project directory
+ * @returns Project read with --entry, --sfcs and --name
+ * @throws Error when combined with fixture selection or probes, or the project cannot be read
+ */
+function loadUserProject(dir: string): Project {
+  if (fixtureFilter.length > 0 || isProbeMode) {
+    throw new Error('--project benchmarks one app and cannot be combined with --fixture or --probe')
+  }
+  const sfcGlobs: string[] = getArgValues('--sfcs')
+  return loadProject(root, {
+    dir,
+    entry: getArgValues('--entry')[0] ?? 'src/main.ts',
+    sfcs: sfcGlobs.length > 0 ? sfcGlobs : ['src/**/*.vue'],
+    name: getArgValues('--name')[0],
+  })
 }
 
 /**
- * Write content to a file relative to project root
- * @param relPath - Path relative to project root
- * @param content - Content to write
+ * Validate the output formats requested on the command line
+ * @param names - Requested formats (empty selects markdown)
+ * @returns Selected formats
  */
-function write(relPath: string, content: string): void {
-  writeFileSync(path.join(root, relPath), content)
+function selectFormats(names: string[]): OutputFormat[] {
+  if (names.length === 0) return ['markdown']
+
+  const unknown: string[] = names.filter((name: string) => !OUTPUT_FORMATS.includes(name as OutputFormat))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown format(s): ${unknown.join(', ')} (available: ${OUTPUT_FORMATS.join(', ')})`)
+  }
+  return names as OutputFormat[]
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// File System Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
 function cleanDist(): void {
   rmSync(paths.dist, { recursive: true, force: true })
 }
 
 /**
- * Execute the Vite build process
- * Uses 'build' script in inspect mode (readable output)
- * Uses 'build:ship' script in benchmark mode (minified)
+ * Type-check a fixture's project with `vue-tsc -b`
+ * For this repository that covers every fixture's sources, which are the same for both variants.
+ * With --vue, this repository is checked against the selected build's types
+ * through a generated tsconfig with its own build info; an external project
+ * keeps its own config, whose references a generated config could not inherit.
+ * The project must install vue-tsc itself; npx never downloads one.
+ * @param fixture - Fixture whose project is checked
+ * @returns Wall time in milliseconds
+ * @throws Error naming the step with the type checker's output, or saying vue-tsc is missing
+ */
+function runTypeCheck(fixture: Fixture): number {
+  try {
+    createRequire(path.join(fixture.projectRoot, 'package.json')).resolve('vue-tsc/package.json')
+  } catch {
+    throw new Error(`${TYPE_CHECK_STEP} failed:\nvue-tsc is not installed in ${fixture.projectRoot}; add it to the project's devDependencies`)
+  }
+
+  const start: number = performance.now()
+  const config: TypeCheckConfig | undefined = vueSource && fixture.projectRoot === root
+    ? writeTypeCheckConfig(vueSource, root)
+    : undefined
+
+  try {
+    execSync(`npx --no-install ${TYPE_CHECK_STEP}${config ? ` ${JSON.stringify(config.file)}` : ''}`, {
+      cwd: fixture.projectRoot,
+      stdio: 'pipe',
+      encoding: 'utf8',
+    })
+  } catch (err) {
+    const { stdout, stderr } = err as { stdout?: string; stderr?: string }
+    const output: string = [stdout, stderr].filter(Boolean).join('\n')
+    console.error(output)
+    throw new Error(`${TYPE_CHECK_STEP} failed:\n${output}`)
+  } finally {
+    config?.cleanup()
+  }
+  return roundMs(performance.now() - start)
+}
+
+/**
+ * Build a fixture with its project's Vite config
+ * Uses the default mode in inspect mode (readable, unminified output)
+ * Uses the fixture's mode in benchmark and probe mode (minified)
+ * The Classic variant is produced by classicRuntimePlugin() at transform time
+ * With --vue, vueSourcePlugin() swaps in the selected Vue build
+ * A build profile overrides minifier, target, feature flags and module preload
+ * @param fixture - Fixture to build into dist/
+ * @param variant - Runtime to build for
+ * @param extraPlugins - Plugins applied after the variant transform (e.g. instrumentation)
+ * @param profile - Build profile; the empty profile keeps the config's settings
+ * @returns JS bytes attributed to each npm package and the build's wall time
+ * @throws Error naming the failed step (`vite build`) with its output
+ */
+async function runBuild(
+  fixture: Fixture,
+  variant: 'vapor' | 'classic',
+  extraPlugins: Plugin[] = [],
+  profile: BuildProfile = {}
+): Promise<BuildResult> {
+  const overrides: ProfileOverrides = getProfileOverrides(profile)
+  let packages: PackageSizes = {}
+  let sfcCompile: Record<string, number> | undefined
+  let vaporOutput: CompiledModule[] | undefined
+
+  const buildStart: number = performance.now()
+  try {
+    await build({
+      configFile: fixture.configFile,
+      root: fixture.root,
+      mode: isInspectMode ? 'production' : fixture.mode,
+      define: overrides.define,
+      plugins: [
+        ...(vueSource ? [vueSourcePlugin(vueSource)] : []),
+        ...(variant === 'classic' ? [classicRuntimePlugin(fixture)] : []),
+        ...extraPlugins,
+        ...(isSfcTiming ? [sfcTimingPlugin(root, (timings: Record<string, number>) => { sfcCompile = timings })] : []),
+        ...(variant === 'vapor'
+          ? [vaporOutputPlugin(fixture.projectRoot, (modules: CompiledModule[]) => { vaporOutput = modules }, vueSource?.linkedPackages)]
+          : []),
+        moduleAttributionPlugin((sizes: PackageSizes) => { packages = sizes }, vueSource?.linkedPackages),
+      ],
+      build: {
+        ...overrides.build,
+        outDir: paths.dist,
+        emptyOutDir: true,
+        ...(isInspectMode && {
+          minify: false,
+          rollupOptions: { output: { preserveModulesRoot: fixture.srcDir } },
+        }),
+      },
+    })
+  } catch (err) {
+    throw new Error(`vite build failed:\n${err instanceof Error ? err.message : String(err)}`)
+  }
+
+  const buildTime: number = roundMs(performance.now() - buildStart)
+
+  return { packages, build: buildTime, ...(sfcCompile && { sfcCompile }), ...(vaporOutput && { vaporOutput }) }
+}
+
+/**
+ * Build a fixture's server bundle with its project's Vite config (`vite build --ssr`)
+ * The entry renders the fixture's root component; `vue` stays external
+ * @param fixture - Fixture to build into dist/
+ * @param variant - Runtime to build for
+ * @throws Error naming the failed step (`vite build --ssr`) with its output
+ */
+async function runSsrBuild(fixture: Fixture, variant: 'vapor' | 'classic'): Promise<void> {
+  if (!fixture.app) {
+    throw new Error(`vite build --ssr failed:\nNo root component found in ${fixture.entry}`)
+  }
+  try {
+    await build({
+      configFile: fixture.configFile,
+      root: fixture.root,
+      mode: fixture.mode,
+      plugins: [
+        ...(vueSource ? [vueSourcePlugin(vueSource)] : []),
+        ...(variant === 'classic' ? [classicRuntimePlugin(fixture)] : []),
+        ssrEntryPlugin(fixture.app),
+      ],
+      build: {
+        outDir: paths.dist,
+        emptyOutDir: true,
+        ssr: true,
+        rollupOptions: {
+          input: SSR_ENTRY_ID,
+          external: isVueImport,
+          output: { entryFileNames: SSR_SERVER_FILE },
+        },
+      },
+    })
+  } catch (err) {
+    throw new Error(`vite build --ssr failed:\n${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+/**
+ * Keep the failed step and the tail of its output for history
+ * @param err - Error thrown by runTypeCheck() or runBuild()
+ * @returns First line (the step) plus the last lines of output, without ANSI colors
+ */
+function excerptError(err: unknown): string {
+  const [step, ...output]: string[] = (err instanceof Error ? err.message : String(err))
+    .replace(/\x1b\[[0-9;]*m/g, '')
+    .trim()
+    .split('\n')
+  const tail: string = output
+    .slice(-ERROR_EXCERPT_LINES)
+    .join('\n')
+    .trim()
+    .slice(-ERROR_EXCERPT_CHARS)
+  return tail ? `${step}\n${tail}` : step
+}
+
+/**
+ * Append markdown to the GitHub Actions job summary
+ * Warns instead of failing outside GitHub Actions
+ * @param markdown - Markdown to append
  */
-function runBuild(): void {
-  const buildScript = isInspectMode ? 'build' : 'build:ship'
-  execSync(`npm run ${buildScript}`, { cwd: root, stdio: 'inherit' })
+function writeStepSummary(markdown: string): void {
+  const file: string | undefined = process.env.GITHUB_STEP_SUMMARY
+  if (!file) {
+    console.warn('--step-summary: GITHUB_STEP_SUMMARY is not set; skipping the job summary')
+    return
+  }
+  appendFileSync(file, `${markdown}\n`)
+  console.log('Report appended to the GitHub step summary')
 }
 
 function captureOutput(targetDir: string): void {
-  mkdirSync(paths.artifacts, { recursive: true })
+  mkdirSync(path.dirname(targetDir), { recursive: true })
   rmSync(targetDir, { recursive: true, force: true })
   renameSync(paths.dist, targetDir)
 }
@@ -149,36 +493,62 @@ function stripVaporAttribute(source: string): string {
 }
 
 /**
- * Transform source files from Vapor mode to Classic Vue mode
- * Modifies main.ts to use createApp instead of createVaporApp
- * Strips vapor attribute from all Vue SFCs
- * @warning This modifies source files - always call restoreSources() after
- */
-function applyClassicTransforms(): void {
-  write(
-    'example/src/main.ts',
-    [
-      "import './style.css'",
-      "import { createApp } from 'vue'",
-      "import App from './App.vue'",
-      '',
-      '// Classic Vue runtime build used for comparisons.',
-      "createApp(App).mount('#app')",
-      '',
-    ].join('\n')
-  )
+ * Switch an entry module from the Vapor to the Classic app factory
+ * Replaces every `createVaporApp` reference with `createApp`
+ * @param source - Entry module source code
+ * @returns Transformed source using createApp
+ */
+function toClassicEntry(source: string): string {
+  return source.replace(/\bcreateVaporApp\b/g, 'createApp')
+}
 
-  for (const file of [
-    'example/src/App.vue',
-    'example/src/components/HelloWorld.vue'
-  ]) {
-    write(file, stripVaporAttribute(read(file)))
+/**
+ * Vite plugin that compiles a fixture in Classic Vue mode
+ * Rewrites the entry to use createApp instead of createVaporApp and strips
+ * the vapor attribute from the fixture's SFCs before @vitejs/plugin-vue sees
+ * them. Only the in-memory module code changes; files on disk are untouched.
+ * @param fixture - Fixture being built
+ * @returns Pre-enforced transform plugin
+ */
+function classicRuntimePlugin(fixture: Fixture): Plugin {
+  const entry: string = normalizePath(path.join(root, fixture.entry))
+  const sfcs: Set<string> = new Set(fixture.sfcs.map((file: string) => normalizePath(path.join(root, file))))
+
+  return {
+    name: 'vapor-benchmark:classic-runtime',
+    enforce: 'pre',
+    transform(code: string, id: string) {
+      if (id === entry) return toClassicEntry(code)
+      if (sfcs.has(id)) return stripVaporAttribute(code)
+      return null
+    },
   }
 }
 
-function restoreSources(): void {
-  for (const [file, content] of originals) {
-    write(file, content)
+/**
+ * Vite plugin that compiles a fixture as a mixed-mode interop scenario
+ * SFCs selected by the scenario keep the vapor attribute, all others are
+ * stripped as in the Classic build, and the entry creates the app with the
+ * scenario's runtime and vaporInteropPlugin installed.
+ * @param fixture - Fixture being built
+ * @param scenario - Interop scenario
+ * @returns Pre-enforced transform plugin
+ */
+function interopRuntimePlugin(fixture: Fixture, scenario: InteropScenario): Plugin {
+  const entry: string = normalizePath(path.join(root, fixture.entry))
+  const vaporSfcs: string[] = selectVaporSfcs(root, fixture, scenario)
+  const vdomSfcs: Set<string> = new Set(fixture.sfcs
+    .filter((file: string) => !vaporSfcs.includes(file))
+    .map((file: string) => normalizePath(path.join(root, file))))
+
+  return {
+    name: 'vapor-benchmark:interop-runtime',
+    enforce: 'pre',
+    transform(code: string, id: string) {
+      if (id === entry) return toInteropEntry(code, scenario.app)
+      if (vdomSfcs.has(id)) return stripVaporAttribute(code)
+      return null
+    },
   }
 }
 
@@ -187,148 +557,235 @@ function restoreSources(): void {
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Calculate total size of all files in a directory (recursive)
- * @param dir - Directory path to measure
- * @returns Total size in bytes
+ * List all files in a directory (recursive)
+ * @param dir - Directory path to walk
+ * @returns Absolute file paths
  */
-function directorySize(dir: string): number {
-  let total: number = 0
+function listFiles(dir: string): string[] {
+  const files: string[] = []
   for (const entry of readdirSync(dir, { withFileTypes: true })) {
     const fullPath: string = path.join(dir, entry.name)
     if (entry.isDirectory()) {
-      total += directorySize(fullPath)
+      files.push(...listFiles(fullPath))
     } else if (entry.isFile()) {
-      total += statSync(fullPath).size
+      files.push(fullPath)
     }
   }
-  return total
+  return files
 }
 
 /**
- * Calculate gzipped size of all files in a directory (recursive)
- * Compresses each file individually and sums the results
- * @param dir - Directory path to measure
- * @returns Total gzipped size in bytes
+ * Classify a build output file by extension
+ * @param file - File path
+ * @returns Asset type used for the per-type breakdown
  */
-function gzipDirectorySize(dir: string): number {
-  let total: number = 0
-  for (const entry of readdirSync(dir, { withFileTypes: true })) {
-    const fullPath: string = path.join(dir, entry.name)
-    if (entry.isDirectory()) {
-      total += gzipDirectorySize(fullPath)
-    } else if (entry.isFile()) {
-      const data: Buffer = readFileSync(fullPath)
-      total += gzipSync(data).length
-    }
+function classifyAsset(file: string): AssetType {
+  const ext: string = path.extname(file)
+  if (ext === '.js' || ext === '.mjs') return 'js'
+  if (ext === '.css') return 'css'
+  if (ext === '.html') return 'html'
+  return 'other'
+}
+
+/**
+ * Sum file sizes per asset type
+ * @param files - Measured files
+ * @returns Raw and gzipped totals for every asset type
+ */
+function sumByType(files: FileMetrics[]): Record<AssetType, TypeSizes> {
+  const byType = Object.fromEntries(
+    ASSET_TYPES.map((type: AssetType) => [type, { raw: 0, gzipped: 0 }])
+  ) as Record<AssetType, TypeSizes>
+  for (const file of files) {
+    byType[file.type].raw += file.raw
+    byType[file.type].gzipped += file.gzipped
   }
-  return total
+  return byType
 }
 
 /**
- * Format bytes as kilobytes with one decimal place
- * @param bytes - Size in bytes
- * @returns Formatted string (e.g., "21.5 KB")
+ * Compress with Brotli at maximum quality, as used for precompressed CDN assets
+ * @param data - File contents
+ * @returns Compressed contents
  */
-function formatKB(bytes: number): string {
-  return `${(bytes / 1024).toFixed(1)} KB`
+function brotliMax(data: Buffer): Buffer {
+  return brotliCompressSync(data, {
+    params: {
+      [zlibConstants.BROTLI_PARAM_QUALITY]: zlibConstants.BROTLI_MAX_QUALITY,
+      [zlibConstants.BROTLI_PARAM_SIZE_HINT]: data.length,
+    },
+  })
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Version Management
-// ─────────────────────────────────────────────────────────────────────────────
+/** zstd support landed in node:zlib with Node.js 22.15 */
+const zstdCompress: ((data: Buffer) => Buffer) | undefined =
+  typeof zlib.zstdCompressSync === 'function' ? (data: Buffer) => zlib.zstdCompressSync(data) : undefined
 
-function getVueVersion(): string {
-  try {
-    const packageJson = JSON.parse(readFileSync(path.join(root, 'package.json'), 'utf8')) as PackageJson
-    return packageJson.dependencies.vue.replace(/[\^~]/g, '')
-  } catch {
-    return 'unknown'
+/**
+ * Measure raw and compressed sizes of a build output directory
+ * Every file is compressed individually; totals are the sum over all files
+ * @param dir - Directory path to measure
+ * @returns Totals, per-type split and per-file sizes (largest gzipped first)
+ */
+function measureDirectory(dir: string): BuildMetrics {
+  const files: FileMetrics[] = []
+  let brotli: number = 0
+  let zstd: number = 0
+
+  for (const fullPath of listFiles(dir)) {
+    const data: Buffer = readFileSync(fullPath)
+    files.push({
+      file: path.relative(dir, fullPath).split(path.sep).join('/'),
+      type: classifyAsset(fullPath),
+      raw: data.length,
+      gzipped: gzipSync(data).length,
+    })
+    brotli += brotliMax(data).length
+    if (zstdCompress) zstd += zstdCompress(data).length
+  }
+
+  files.sort((a: FileMetrics, b: FileMetrics) => b.gzipped - a.gzipped || a.file.localeCompare(b.file))
+
+  return {
+    raw: files.reduce((total: number, f: FileMetrics) => total + f.raw, 0),
+    gzipped: files.reduce((total: number, f: FileMetrics) => total + f.gzipped, 0),
+    brotli,
+    ...(zstdCompress && { zstd }),
+    byType: sumByType(files),
+    files,
+    hash: hashDirectory(dir),
   }
 }
 
-function readHistory(): BenchmarkHistory {
-  try {
-    return JSON.parse(readFileSync(paths.history, 'utf8')) as BenchmarkHistory
-  } catch {
-    return { benchmarks: [] }
+/**
+ * Measure raw and compressed sizes of a single piece of content
+ * @param data - Content to measure
+ * @returns Raw, gzip, Brotli and (where available) zstd sizes
+ */
+function measureContent(data: Buffer): SizeMetrics {
+  return {
+    raw: data.length,
+    gzipped: gzipSync(data).length,
+    brotli: brotliMax(data).length,
+    ...(zstdCompress && { zstd: zstdCompress(data).length }),
   }
 }
 
 /**
- * Parse semantic version string into comparable parts
+ * Keep only the totals of a directory measurement
+ * @param metrics - Directory measurement
+ * @returns Raw and compressed totals
+ */
+function pickSizes({ raw, gzipped, brotli, zstd }: BuildMetrics): SizeMetrics {
+  return { raw, gzipped, ...(brotli !== undefined && { brotli }), ...(zstd !== undefined && { zstd }) }
+}
+
+/**
+ * Hash a build output directory
+ * Relative paths are included, so renamed chunks change the hash too
+ * @param dir - Directory path to hash
+ * @returns Hex SHA-256 digest over all files in path order
  */
-function parseVersion(version: string): {
-  major: number
-  minor: number
-  patch: number
-  prerelease: string | null
-  prereleaseNum: number
-} {
-  const match = version.match(/^(\d+)\.(\d+)\.(\d+)(?:-(alpha|beta|rc)\.(\d+))?$/)
-  if (!match) {
-    return { major: 0, minor: 0, patch: 0, prerelease: null, prereleaseNum: 0 }
+function hashDirectory(dir: string): string {
+  const hash = createHash('sha256')
+  for (const fullPath of listFiles(dir).sort()) {
+    hash.update(path.relative(dir, fullPath).split(path.sep).join('/'))
+    hash.update('\0')
+    hash.update(readFileSync(fullPath))
+    hash.update('\0')
   }
+  return hash.digest('hex')
+}
 
+/**
+ * Summarize the sizes and hashes of repeated builds
+ * @param samples - Measurements of every run
+ * @returns Minimum and maximum sizes and whether all hashes match
+ */
+function summarizeRuns(samples: BuildMetrics[]): RepeatMetrics {
+  const raws: number[] = samples.map((s: BuildMetrics) => s.raw)
+  const gzips: number[] = samples.map((s: BuildMetrics) => s.gzipped)
   return {
-    major: parseInt(match[1], 10),
-    minor: parseInt(match[2], 10),
-    patch: parseInt(match[3], 10),
-    prerelease: match[4] || null,
-    prereleaseNum: match[5] ? parseInt(match[5], 10) : 0,
+    runs: samples.length,
+    min: { raw: Math.min(...raws), gzipped: Math.min(...gzips) },
+    max: { raw: Math.max(...raws), gzipped: Math.max(...gzips) },
+    identical: samples.every((s: BuildMetrics) => s.hash === samples[0].hash),
   }
 }
 
 /**
- * Compare two semantic versions
- * Returns: -1 if a < b, 0 if a === b, 1 if a > b
+ * Subtract Classic from Vapor sizes
+ * Optional metrics are only included when both builds have them
+ * @param vapor - Vapor build sizes
+ * @param classic - Classic build sizes
+ * @returns Vapor - Classic delta for each metric and asset type
  */
-function compareVersions(a: string, b: string): number {
-  const vA = parseVersion(a)
-  const vB = parseVersion(b)
-
-  // Compare major.minor.patch
-  if (vA.major !== vB.major) return vA.major - vB.major
-  if (vA.minor !== vB.minor) return vA.minor - vB.minor
-  if (vA.patch !== vB.patch) return vA.patch - vB.patch
+function diffMetrics(vapor: BuildMetrics, classic: BuildMetrics): DeltaMetrics {
+  const delta: DeltaMetrics = {
+    raw: vapor.raw - classic.raw,
+    gzipped: vapor.gzipped - classic.gzipped,
+  }
+  if (vapor.brotli !== undefined && classic.brotli !== undefined) delta.brotli = vapor.brotli - classic.brotli
+  if (vapor.zstd !== undefined && classic.zstd !== undefined) delta.zstd = vapor.zstd - classic.zstd
+  if (vapor.byType && classic.byType) {
+    const vaporByType: Record<AssetType, TypeSizes> = vapor.byType
+    const classicByType: Record<AssetType, TypeSizes> = classic.byType
+    delta.byType = Object.fromEntries(
+      ASSET_TYPES.map((type: AssetType) => [type, {
+        raw: vaporByType[type].raw - classicByType[type].raw,
+        gzipped: vaporByType[type].gzipped - classicByType[type].gzipped,
+      }])
+    ) as Record<AssetType, TypeSizes>
+  }
+  return delta
+}
 
-  // If one has prerelease and the other doesn't, stable version is greater
-  if (vA.prerelease === null && vB.prerelease !== null) return 1
-  if (vA.prerelease !== null && vB.prerelease === null) return -1
+/**
+ * Format bytes as kilobytes with one decimal place
+ * @param bytes - Size in bytes
+ * @returns Formatted string (e.g., "21.5 KB")
+ */
+function formatKB(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)} KB`
+}
 
-  // Both have prereleases, compare them
-  if (vA.prerelease !== null && vB.prerelease !== null) {
-    const prereleaseOrder: Record<string, number> = { alpha: 1, beta: 2, rc: 3 }
-    const orderA = prereleaseOrder[vA.prerelease] || 0
-    const orderB = prereleaseOrder[vB.prerelease] || 0
+/**
+ * Format a duration in milliseconds for display
+ * @param ms - Duration, if recorded
+ * @returns Formatted string (e.g. "850 ms", "10.4 s" or "—")
+ */
+function formatMs(ms: number | undefined): string {
+  if (ms === undefined) return '—'
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`
+}
 
-    if (orderA !== orderB) return orderA - orderB
-    return vA.prereleaseNum - vB.prereleaseNum
-  }
+/**
+ * Format an optional size, falling back to a dash when it was not measured
+ * @param bytes - Size in bytes, if recorded
+ * @returns Formatted string (e.g., "21.5 KB" or "—")
+ */
+function formatOptionalKB(bytes: number | undefined): string {
+  return bytes === undefined ? '—' : formatKB(bytes)
+}
 
-  return 0
+/**
+ * History mode of entries created by this run
+ */
+function getEntryMode(): BenchmarkEntry['mode'] {
+  if (isProbeMode) return 'probe'
+  if (isProfileMode) return 'profile'
+  return isInspectMode ? 'inspect' : 'benchmark'
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// History Management
+// Version Management
 // ─────────────────────────────────────────────────────────────────────────────
 
-function writeHistory(entry: BenchmarkEntry): void {
-  const history: BenchmarkHistory = readHistory()
-
-  // Remove all existing entries with this vueVersion
-  history.benchmarks = history.benchmarks.filter(
-    (b: BenchmarkEntry) => b.vueVersion !== entry.vueVersion
-  )
-
-  // Add the new entry
-  history.benchmarks.push(entry)
-
-  // Sort by semantic version
-  history.benchmarks.sort((a: BenchmarkEntry, b: BenchmarkEntry) =>
-    compareVersions(a.vueVersion, b.vueVersion)
-  )
-
-  writeFileSync(paths.history, JSON.stringify(history, null, 2))
+/**
+ * Version of the Vue build under test, as read from its installed vue/package.json
+ */
+function getVueVersion(): string {
+  return vueSource?.version ?? 'unknown'
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -336,166 +793,1545 @@ function writeHistory(entry: BenchmarkEntry): void {
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Generate a markdown benchmark report with current results and history
- * @param current - Current benchmark entry
- * @param history - Historical benchmark data for trend analysis
- * @returns Formatted markdown string
+ * Format a Vapor - Classic gzip delta for display
+ * @param delta - Delta in bytes
+ * @returns Human readable delta label
  */
-function generateMarkdownReport(current: BenchmarkEntry, history: BenchmarkHistory): string {
-  const timestamp: string = new Date(current.timestamp).toLocaleString()
-  const delta: number = current.delta.gzipped
-  const deltaLabel: string = delta === 0
+function formatDeltaLabel(delta: number): string {
+  return delta === 0
     ? '0 KB (equal)'
     : `${delta > 0 ? '+' : ''}${formatKB(Math.abs(delta))} (${delta > 0 ? 'Vapor larger' : 'Vapor smaller'})`
+}
 
-  let markdown: string[] = [
-    `# Build Benchmark Report`,
-    ``,
-    `**Generated**: ${timestamp}`,
-    `**Vue Version**: ${current.vueVersion}`,
-    `**Mode**: ${current.mode === 'inspect' ? 'Inspection (readable)' : 'Production benchmark'}`,
-    ``,
-    `## Current Build`,
-    ``,
-    `| Build | Raw Size | Gzipped | Compression Ratio |`,
-    `|-------|----------|---------|-------------------|`,
-    `| Vapor | ${formatKB(current.vapor.raw)} (${current.vapor.raw.toLocaleString()} bytes) | ${formatKB(current.vapor.gzipped)} (${current.vapor.gzipped.toLocaleString()} bytes) | ${(current.vapor.raw / current.vapor.gzipped).toFixed(2)}x |`,
-    `| Classic | ${formatKB(current.classic.raw)} (${current.classic.raw.toLocaleString()} bytes) | ${formatKB(current.classic.gzipped)} (${current.classic.gzipped.toLocaleString()} bytes) | ${(current.classic.raw / current.classic.gzipped).toFixed(2)}x |`,
-    ``,
-    `**Delta (Vapor - Classic)**: ${deltaLabel}`,
-  ]
+/**
+ * Format a signed delta for compact display
+ * @param delta - Delta in bytes, if recorded
+ * @returns Signed string (e.g., "+1.2 KB", "-3.4 KB" or "—")
+ */
+function formatSignedKB(delta: number | undefined): string {
+  if (delta === undefined) return '—'
+  return `${delta > 0 ? '+' : delta < 0 ? '-' : ''}${formatKB(Math.abs(delta))}`
+}
 
-  // Add history section if not in inspect mode
-  if (current.mode !== 'inspect' && history.benchmarks.length > 0) {
-    markdown.push(``, `## Recent History`, ``)
+/**
+ * Describe a failed entry for tables
+ * @param entry - Failed entry
+ * @returns Marker label (e.g. "❌ Vapor build failed")
+ */
+function formatFailure(entry: FailedEntry): string {
+  return `❌ ${FAILURE_LABELS[entry.status]}`
+}
 
-    const recentBenchmarks: BenchmarkEntry[] = history.benchmarks
-      .filter((b: BenchmarkEntry) => b.mode === 'benchmark')
-      .slice(-HISTORY_DISPLAY_LIMIT)
-      .reverse()
+/**
+ * Generate a Current Build table row for one variant
+ * @param fixture - Fixture name
+ * @param label - Build label (Vapor or Classic)
+ * @param sizes - Measured sizes
+ * @returns Markdown table row
+ */
+function formatBuildRow(fixture: string, label: string, sizes: SizeMetrics): string {
+  return `| ${fixture} | ${label} | ${formatKB(sizes.raw)} (${sizes.raw.toLocaleString()} bytes) | ${formatKB(sizes.gzipped)} (${sizes.gzipped.toLocaleString()} bytes) | ${formatOptionalKB(sizes.brotli)} | ${formatOptionalKB(sizes.zstd)} | ${(sizes.raw / sizes.gzipped).toFixed(2)}x |`
+}
 
-    if (recentBenchmarks.length > 0) {
-      markdown.push(
-        `| Date | Vue Version | Vapor (gzipped) | Classic (gzipped) | Delta | Trend |`,
-        `|------|-------------|-----------------|-------------------|-------|-------|`
-      )
+/**
+ * Generate the per-type Vapor vs Classic table for the current run
+ * Types without output in either build are omitted
+ * @param current - Current benchmark entries, one per fixture
+ * @returns Markdown lines
+ */
+function generateTypeTable(current: MeasuredEntry[]): string[] {
+  const lines: string[] = [
+    `| Fixture | Type | Vapor (raw) | Classic (raw) | Vapor (gzipped) | Classic (gzipped) | Delta (gzipped) |`,
+    `|---------|------|-------------|---------------|-----------------|-------------------|-----------------|`,
+  ]
 
-      recentBenchmarks.forEach((entry: BenchmarkEntry, idx: number) => {
-        const date: string = new Date(entry.timestamp).toLocaleDateString()
-        const vaporGzip: string = formatKB(entry.vapor.gzipped)
-        const classicGzip: string = formatKB(entry.classic.gzipped)
-        const entryDelta: number = entry.delta.gzipped
-        const deltaStr: string = entryDelta > 0 ? `+${formatKB(entryDelta)}` : formatKB(entryDelta)
-
-        // Calculate trend
-        let trend: string = '—'
-        if (idx < recentBenchmarks.length - 1) {
-          const prev: BenchmarkEntry = recentBenchmarks[idx + 1]
-          const change: number = entry.vapor.gzipped - prev.vapor.gzipped
-          if (change < -TREND_THRESHOLD_BYTES) trend = '↓ Improving'
-          else if (change > TREND_THRESHOLD_BYTES) trend = '↑ Regressing'
-          else trend = '→ Stable'
-        }
+  for (const entry of current) {
+    const { vapor, classic, delta } = entry
+    if (!vapor.byType || !classic.byType || !delta.byType) continue
 
-        markdown.push(`| ${date} | ${entry.vueVersion} | ${vaporGzip} | ${classicGzip} | ${deltaStr} | ${trend} |`)
-      })
+    for (const type of ASSET_TYPES) {
+      if (vapor.byType[type].raw === 0 && classic.byType[type].raw === 0) continue
+      lines.push(
+        `| ${entry.fixture} | ${type} | ${formatKB(vapor.byType[type].raw)} | ${formatKB(classic.byType[type].raw)} | ${formatKB(vapor.byType[type].gzipped)} | ${formatKB(classic.byType[type].gzipped)} | ${formatSignedKB(delta.byType[type].gzipped)} |`
+      )
     }
   }
 
-  markdown.push(
-    ``,
-    `## Commands`,
-    ``,
-    `\`\`\`bash`,
-    `npm run benchmark         # Run production benchmark`,
-    `npm run benchmark:inspect # Generate readable build for inspection`,
-    `\`\`\``,
-    ``
-  )
+  return lines
+}
 
-  return markdown.join('\n')
+/**
+ * Generate the largest files table across all builds of the current run
+ * @param current - Current benchmark entries, one per fixture
+ * @returns Markdown lines
+ */
+function generateLargestFilesTable(current: MeasuredEntry[]): string[] {
+  const rows: { fixture: string; build: string; file: FileMetrics }[] = current.flatMap((entry: MeasuredEntry) => [
+    ...(entry.vapor.files ?? []).map((file: FileMetrics) => ({ fixture: entry.fixture, build: 'Vapor', file })),
+    ...(entry.classic.files ?? []).map((file: FileMetrics) => ({ fixture: entry.fixture, build: 'Classic', file })),
+  ])
+
+  rows.sort((a, b) => b.file.gzipped - a.file.gzipped)
+
+  return [
+    `| Fixture | Build | File | Type | Raw Size | Gzipped |`,
+    `|---------|-------|------|------|----------|---------|`,
+    ...rows.slice(0, LARGEST_FILES_LIMIT).map(({ fixture, build, file }) =>
+      `| ${fixture} | ${build} | \`${file.file}\` | ${file.type} | ${formatKB(file.raw)} | ${formatKB(file.gzipped)} |`
+    ),
+  ]
 }
 
 /**
- * Create benchmark entry, update history, and write markdown report
- * @param vaporSize - Raw Vapor build size in bytes
- * @param classicSize - Raw Classic build size in bytes
- * @param vaporGzip - Gzipped Vapor build size in bytes
- * @param classicGzip - Gzipped Classic build size in bytes
+ * Generate the per-package Vapor vs Classic JS attribution table
+ * Packages are ordered by their largest contribution to either build
+ * @param current - Current benchmark entries, one per fixture
+ * @returns Markdown lines
  */
-function writeReport(vaporSize: number, classicSize: number, vaporGzip: number, classicGzip: number): void {
-  const entry: BenchmarkEntry = {
-    timestamp: new Date().toISOString(),
-    mode: isInspectMode ? 'inspect' : 'benchmark',
-    vapor: {
-      raw: vaporSize,
-      gzipped: vaporGzip
-    },
-    classic: {
-      raw: classicSize,
-      gzipped: classicGzip
-    },
-    delta: {
-      raw: vaporSize - classicSize,
-      gzipped: vaporGzip - classicGzip
-    },
-    vueVersion: getVueVersion()
+function generatePackageTable(current: MeasuredEntry[]): string[] {
+  const lines: string[] = [
+    `| Fixture | Package | Vapor | Classic | Delta |`,
+    `|---------|---------|-------|---------|-------|`,
+  ]
+
+  for (const entry of current) {
+    const vaporPackages: PackageSizes = entry.vapor.packages ?? {}
+    const classicPackages: PackageSizes = entry.classic.packages ?? {}
+    const names: string[] = [...new Set([...Object.keys(vaporPackages), ...Object.keys(classicPackages)])]
+      .sort((a: string, b: string) =>
+        Math.max(vaporPackages[b] ?? 0, classicPackages[b] ?? 0) - Math.max(vaporPackages[a] ?? 0, classicPackages[a] ?? 0)
+      )
+
+    for (const name of names) {
+      const vaporBytes: number = vaporPackages[name] ?? 0
+      const classicBytes: number = classicPackages[name] ?? 0
+      const label: string = name === APP_PACKAGE || name === VIRTUAL_PACKAGE ? name : `\`${name}\``
+      lines.push(`| ${entry.fixture} | ${label} | ${formatKB(vaporBytes)} | ${formatKB(classicBytes)} | ${formatSignedKB(vaporBytes - classicBytes)} |`)
+    }
   }
 
-  // Only save to history if benchmarking (not inspecting)
-  if (!isInspectMode) {
-    writeHistory(entry)
+  return lines
+}
+
+/**
+ * Generate the build time tables for the current run
+ * @param current - Current benchmark entries, one per fixture
+ * @returns Markdown lines (empty if no entry has build timings)
+ */
+function generateBuildTimeTable(current: MeasuredEntry[]): string[] {
+  const timed: MeasuredEntry[] = current.filter((entry: MeasuredEntry) => entry.buildTime)
+  if (timed.length === 0) return []
+
+  const lines: string[] = [
+    `Wall time of \`vite build\` per variant${runs > 1 ? ` (median of ${runs} runs)` : ''}. \`vue-tsc -b\` checks the whole project, which is the same for both variants, so it runs once per fixture.`,
+    ``,
+    `| Fixture | vue-tsc -b | vite build (Vapor) | vite build (Classic) | Delta |`,
+    `|---------|------------|--------------------|----------------------|-------|`,
+  ]
+
+  for (const entry of timed) {
+    const { typeCheck, vapor, classic } = entry.buildTime!
+    const delta: string = `${vapor.build >= classic.build ? '+' : '-'}${formatMs(Math.abs(vapor.build - classic.build))}`
+    lines.push(`| ${entry.fixture} | ${formatMs(typeCheck)} | ${formatMs(vapor.build)} | ${formatMs(classic.build)} | ${delta} |`)
   }
 
-  // Generate markdown report with history
-  const markdown: string = generateMarkdownReport(entry, readHistory())
+  // Per-SFC compile times, when measured with --sfc-timing
+  const sfcRows: string[] = timed.flatMap((entry: MeasuredEntry) => {
+    const vapor: Record<string, number> = entry.buildTime!.vapor.sfcCompile ?? {}
+    const classic: Record<string, number> = entry.buildTime!.classic.sfcCompile ?? {}
+    return [...new Set([...Object.keys(vapor), ...Object.keys(classic)])].sort().map((file: string) =>
+      `| ${entry.fixture} | \`${file}\` | ${(vapor[file] ?? 0).toFixed(1)} ms | ${(classic[file] ?? 0).toFixed(1)} ms |`
+    )
+  })
+  if (sfcRows.length > 0) {
+    lines.push(
+      ``,
+      `SFC compile time in \`@vitejs/plugin-vue\` (parse, script and template compile):`,
+      ``,
+      `| Fixture | SFC | Vapor | Classic |`,
+      `|---------|-----|-------|---------|`,
+      ...sfcRows,
+    )
+  }
 
-  mkdirSync(paths.artifacts, { recursive: true })
-  writeFileSync(paths.report, markdown)
-  console.log(`Report saved to ${path.relative(root, paths.report)}`)
+  return lines
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Main Execution
-// ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Format a timing distribution for the runtime table
+ * @param stats - Timing stats, if measured
+ * @returns Median and p95 cells (e.g. "1.23 ms | 1.50 ms")
+ */
+function formatTiming(stats: TimingStats | undefined): string {
+  return stats ? `${stats.median.toFixed(2)} ms | ${stats.p95.toFixed(2)} ms` : '— | —'
+}
+
+/**
+ * Format the unmount timing, marking builds whose runtime cannot unmount the app
+ * @param metrics - Runtime metrics of one build
+ * @returns Median and p95 cells
+ */
+function formatUnmount(metrics: RuntimeMetrics): string {
+  return metrics.unmountUnsupported !== undefined ? 'unsupported | unsupported' : formatTiming(metrics.unmount)
+}
 
-let classicApplied: boolean = false
+/**
+ * Generate the runtime performance table for entries measured with --runtime
+ * @param current - Current benchmark entries, one per fixture
+ * @returns Markdown lines (empty if no entry has runtime data)
+ */
+function generateRuntimeTable(current: MeasuredEntry[]): string[] {
+  const measured: MeasuredEntry[] = current.filter((entry: MeasuredEntry) => entry.runtime)
+  if (measured.length === 0) return []
 
-const mode: 'inspect' | 'benchmark' = isInspectMode ? 'inspect' : 'benchmark'
-console.log(`Running in ${mode} mode...`)
+  const { mount, updates } = measured[0].runtime!.vapor
 
-try {
-  console.log(`\nBuilding Vapor output...`)
-  cleanDist()
-  runBuild()
-  captureOutput(paths.vapor)
+  const lines: string[] = [
+    `Timed in happy-dom over ${mount.samples} samples; update = ${updates} button clicks, each followed by a scheduler flush.`,
+    ``,
+    `| Fixture | Phase | Vapor (median) | Vapor (p95) | Classic (median) | Classic (p95) |`,
+    `|---------|-------|----------------|-------------|------------------|---------------|`,
+  ]
+  const unsupported: string[] = []
+  const errors: string[] = []
+
+  for (const entry of measured) {
+    const { vapor, classic } = entry.runtime!
+    lines.push(
+      `| ${entry.fixture} | mount | ${formatTiming(vapor.mount)} | ${formatTiming(classic.mount)} |`,
+      `| ${entry.fixture} | update | ${formatTiming(vapor.update)} | ${formatTiming(classic.update)} |`,
+      `| ${entry.fixture} | unmount | ${formatUnmount(vapor)} | ${formatUnmount(classic)} |`,
+    )
+    unsupported.push(
+      ...(vapor.unmountUnsupported !== undefined ? [`- ${entry.fixture} (Vapor): ${vapor.unmountUnsupported}`] : []),
+      ...(classic.unmountUnsupported !== undefined ? [`- ${entry.fixture} (Classic): ${classic.unmountUnsupported}`] : []),
+    )
+    errors.push(
+      ...(vapor.errors ?? []).map((error: string) => `- ${entry.fixture} (Vapor): ${error}`),
+      ...(classic.errors ?? []).map((error: string) => `- ${entry.fixture} (Classic): ${error}`),
+    )
+  }
 
-  console.log(`\nBuilding classic runtime output...`)
-  applyClassicTransforms()
-  classicApplied = true
-  cleanDist()
-  runBuild()
-  captureOutput(paths.classic)
-
-  const vaporSize: number = directorySize(paths.vapor)
-  const classicSize: number = directorySize(paths.classic)
-  const vaporGzip: number = gzipDirectorySize(paths.vapor)
-  const classicGzip: number = gzipDirectorySize(paths.classic)
-
-  console.log(`\nSize summary (${mode})`)
-  console.log(`- Vapor output:   ${formatKB(vaporSize)} (gzip ${formatKB(vaporGzip)})`)
-  console.log(`- Classic output: ${formatKB(classicSize)} (gzip ${formatKB(classicGzip)})`)
-  writeReport(vaporSize, classicSize, vaporGzip, classicGzip)
-} finally {
-  if (classicApplied) {
-    console.log('\nRestoring Vapor sources and regenerating dist...')
-    restoreSources()
-    cleanDist()
-    runBuild()
+  if (unsupported.length > 0) {
+    lines.push(``, `**Unmount not timed**:`, ``, ...unsupported)
+  }
+  if (errors.length > 0) {
+    lines.push(``, `**Runtime errors**:`, ``, ...errors)
   }
+
+  return lines
+}
+
+/**
+ * Generate the memory footprint table for entries measured with --memory
+ * @param current - Current benchmark entries, one per fixture
+ * @returns Markdown lines (empty if no entry has memory data)
+ */
+function generateMemoryTable(current: MeasuredEntry[]): string[] {
+  const measured: MeasuredEntry[] = current.filter((entry: MeasuredEntry) => entry.memory)
+  if (measured.length === 0) return []
+
+  return [
+    `Retained heap after GC per mounted app instance (${measured[0].memory!.vapor.instances} instances in happy-dom, DOM nodes included).`,
+    ``,
+    `| Fixture | Vapor (per instance) | Classic (per instance) | Delta | Vapor / Classic |`,
+    `|---------|----------------------|------------------------|-------|-----------------|`,
+    ...measured.map((entry: MeasuredEntry) => {
+      const { vapor, classic } = entry.memory!
+      const ratio: string = classic.heapPerInstance > 0
+        ? `${(vapor.heapPerInstance / classic.heapPerInstance).toFixed(2)}x`
+        : '—'
+      return `| ${entry.fixture} | ${formatKB(vapor.heapPerInstance)} | ${formatKB(classic.heapPerInstance)} | ${formatSignedKB(vapor.heapPerInstance - classic.heapPerInstance)} | ${ratio} |`
+    }),
+  ]
 }
 
-console.log(`\nArtifacts available under ${path.relative(root, paths.vapor)} and ${path.relative(root, paths.classic)}`)
-if (!isInspectMode) {
-  console.log(`History updated in ${path.relative(root, paths.history)}`)
+/**
+ * Generate the SSR and hydration table for entries measured with --ssr
+ * @param current - Current benchmark entries, one per fixture
+ * @returns Markdown lines (empty if no entry has SSR data)
+ */
+function generateSsrTable(current: MeasuredEntry[]): string[] {
+  const measured: MeasuredEntry[] = current.filter((entry: MeasuredEntry) => entry.ssr)
+  if (measured.length === 0) return []
+
+  const lines: string[] = [
+    `Gzipped sizes. The server bundle excludes \`vue\`; the hydration client is compared with the same variant's client-only build.`,
+    ``,
+    `| Fixture | Build | Server Bundle | Hydration Client | vs Client-Only | Rendered HTML |`,
+    `|---------|-------|---------------|------------------|----------------|---------------|`,
+  ]
+  const errors: string[] = []
+
+  for (const entry of measured) {
+    const variants: ['Vapor' | 'Classic', SsrMetrics, BuildMetrics][] = [
+      ['Vapor', entry.ssr!.vapor, entry.vapor],
+      ['Classic', entry.ssr!.classic, entry.classic],
+    ]
+    for (const [label, ssr, spa] of variants) {
+      const failed: string = ssr.error ? `❌ ${ssr.error.split('\n')[0]}` : '—'
+      lines.push(
+        `| ${entry.fixture} | ${label} | ${ssr.server ? formatKB(ssr.server.gzipped) : failed} | ${ssr.client ? formatKB(ssr.client.gzipped) : failed} | ${ssr.client ? formatSignedKB(ssr.client.gzipped - spa.gzipped) : '—'} | ${ssr.html ? formatKB(ssr.html.gzipped) : failed} |`
+      )
+      if (ssr.error) {
+        errors.push(``, `### ${entry.fixture}: ${label}`, ``, '```', ssr.error, '```')
+      }
+    }
+  }
+
+  return errors.length > 0 ? [...lines, ``, `**Failed SSR builds**:`, ...errors] : lines
+}
+
+/**
+ * Generate the mixed-mode interop table for entries measured with --interop
+ * @param current - Current benchmark entries, one per fixture
+ * @returns Markdown lines (empty if no entry has interop builds)
+ */
+function generateInteropTable(current: MeasuredEntry[]): string[] {
+  const measured: MeasuredEntry[] = current.filter((entry: MeasuredEntry) => entry.interop)
+  if (measured.length === 0) return []
+
+  const lines: string[] = [
+    `Selected SFCs stay Vapor, the rest compile to VDOM; the app is created with \`vaporInteropPlugin\` installed. Deltas are gzipped.`,
+    ``,
+    `| Fixture | Scenario | App | Vapor SFCs | Gzipped | vs Vapor | vs Classic |`,
+    `|---------|----------|-----|------------|---------|----------|------------|`,
+  ]
+  const errors: string[] = []
+
+  for (const entry of measured) {
+    for (const result of entry.interop!) {
+      const app: string = result.app === 'vdom' ? '`createApp`' : '`createVaporApp`'
+      const sfcs: string = `${result.vaporSfcs.length} of ${result.vaporSfcs.length + result.vdomSfcs.length}`
+      if (!result.build) {
+        lines.push(`| ${entry.fixture} | ${result.scenario} | ${app} | ${sfcs} | ❌ build failed | — | — |`)
+        errors.push(``, `### ${entry.fixture}: ${result.scenario}`, ``, '```', result.error ?? '', '```')
+        continue
+      }
+      const { gzipped } = result.build
+      lines.push(
+        `| ${entry.fixture} | ${result.scenario} | ${app} | ${sfcs} | ${formatKB(gzipped)} | ${formatSignedKB(gzipped - entry.vapor.gzipped)} | ${formatSignedKB(gzipped - entry.classic.gzipped)} |`
+      )
+    }
+  }
+
+  return errors.length > 0 ? [...lines, ``, `**Failed interop builds**:`, ...errors] : lines
+}
+
+/**
+ * Modules of a Vapor build that fell back to VDOM
+ * @param modules - Vapor output of an entry
+ * @returns SFCs compiled as VDOM render functions and modules importing VDOM helpers
+ */
+function findVaporFallbacks(modules: CompiledModule[] = []): CompiledModule[] {
+  return modules.filter((m: CompiledModule) => m.output === 'vdom' || m.vdomHelpers.length > 0)
+}
+
+/**
+ * Generate the Vapor output table for entries whose Vapor build was analyzed
+ * @param current - Current benchmark entries, one per fixture
+ * @returns Markdown lines (empty if no entry has Vapor output)
+ */
+function generateVaporOutputTable(current: MeasuredEntry[]): string[] {
+  const analyzed: MeasuredEntry[] = current.filter((entry: MeasuredEntry) => entry.vaporOutput)
+  if (analyzed.length === 0) return []
+
+  const lines: string[] = [
+    `How the Vapor build compiled each SFC. A VDOM SFC is missing the \`vapor\` attribute or was compiled to a render function by the Vapor compiler; VDOM helpers pull the VDOM runtime into the Vapor bundle.`,
+    ``,
+    `| Fixture | Vapor SFCs | VDOM SFCs | Modules with VDOM Helpers |`,
+    `|---------|------------|-----------|---------------------------|`,
+  ]
+  for (const entry of analyzed) {
+    const modules: CompiledModule[] = entry.vaporOutput!
+    const count = (predicate: (m: CompiledModule) => boolean): number => modules.filter(predicate).length
+    lines.push(
+      `| ${entry.fixture} | ${count((m) => m.output === 'vapor')} | ${count((m) => m.output === 'vdom')} | ${count((m) => m.vdomHelpers.length > 0)} |`
+    )
+  }
+
+  const fallbackRows: string[] = analyzed.flatMap((entry: MeasuredEntry) =>
+    findVaporFallbacks(entry.vaporOutput).map((m: CompiledModule) => {
+      const output: string = m.output === 'vdom' ? '⚠️ VDOM render function' : m.output === 'vapor' ? 'Vapor' : 'Script'
+      const helpers: string = m.vdomHelpers.map((helper: string) => `\`${helper}\``).join(', ') || '—'
+      return `| ${entry.fixture} | \`${m.file}\` | ${output} | ${helpers} |`
+    })
+  )
+  if (fallbackRows.length === 0) {
+    return [...lines, ``, `✅ Every SFC compiled to Vapor and no module imports VDOM helpers.`]
+  }
+  return [
+    ...lines,
+    ``,
+    `| Fixture | Module | Output | VDOM Helpers |`,
+    `|---------|--------|--------|--------------|`,
+    ...fallbackRows,
+  ]
+}
+
+/**
+ * Whether repeated builds of an entry produced different output
+ * @param entry - Measured entry
+ * @returns True if either variant's output hash changed between runs
+ */
+function isNondeterministic(entry: MeasuredEntry): boolean {
+  return entry.vapor.repeat?.identical === false || entry.classic.repeat?.identical === false
+}
+
+/**
+ * Generate the determinism table for entries built with --runs
+ * @param current - Current benchmark entries, one per fixture
+ * @returns Markdown lines (empty if no entry was built repeatedly)
+ */
+function generateDeterminismTable(current: MeasuredEntry[]): string[] {
+  const repeated: MeasuredEntry[] = current.filter((entry: MeasuredEntry) => entry.vapor.repeat && entry.classic.repeat)
+  if (repeated.length === 0) return []
+
+  const formatRow = (fixture: string, label: string, repeat: RepeatMetrics): string =>
+    `| ${fixture} | ${label} | ${repeat.runs} | ${formatKB(repeat.min.gzipped)} | ${formatKB(repeat.max.gzipped)} | ${(repeat.max.gzipped - repeat.min.gzipped).toLocaleString()} bytes | ${repeat.identical ? '✅ Identical' : '⚠️ Nondeterministic'} |`
+
+  return [
+    `Each variant was built ${repeated[0].vapor.repeat!.runs} times; the output hash covers the paths and contents of all files.`,
+    ``,
+    `| Fixture | Build | Runs | Min (gzipped) | Max (gzipped) | Spread | Output |`,
+    `|---------|-------|------|---------------|---------------|--------|--------|`,
+    ...repeated.flatMap((entry: MeasuredEntry) => [
+      formatRow(entry.fixture, 'Vapor', entry.vapor.repeat!),
+      formatRow(entry.fixture, 'Classic', entry.classic.repeat!),
+    ]),
+  ]
+}
+
+/**
+ * Gzipped size change between two entries that counts as a trend
+ * Uses the larger Vapor spread observed over repeated builds; entries that
+ * were built once fall back to TREND_THRESHOLD_BYTES
+ * @param entry - Newer entry
+ * @param prev - Older entry
+ * @returns Threshold in bytes
+ */
+function getTrendThreshold(entry: MeasuredEntry, prev: MeasuredEntry): number {
+  const spreads: number[] = [entry.vapor.repeat, prev.vapor.repeat]
+    .filter((repeat: RepeatMetrics | undefined): repeat is RepeatMetrics => repeat !== undefined)
+    .map((repeat: RepeatMetrics) => repeat.max.gzipped - repeat.min.gzipped)
+  return spreads.length > 0 ? Math.max(...spreads) : TREND_THRESHOLD_BYTES
+}
+
+/**
+ * Generate the recent history table for a single fixture
+ * @param fixture - Fixture name to filter history by
+ * @param history - Historical benchmark data for trend analysis
+ * @returns Markdown lines (empty if the fixture has no history)
+ */
+function generateHistoryTable(fixture: string, history: BenchmarkHistory): string[] {
+  const recentBenchmarks: BenchmarkEntry[] = history.benchmarks
+    .filter((b: BenchmarkEntry) => b.mode === 'benchmark' && b.fixture === fixture)
+    .slice(-HISTORY_DISPLAY_LIMIT)
+    .reverse()
+
+  if (recentBenchmarks.length === 0) return []
+
+  const lines: string[] = [
+    `| Date | Vue Version | Vapor (gzipped) | Classic (gzipped) | Delta | Vapor (brotli) | Vapor build | Classic build | Trend |`,
+    `|------|-------------|-----------------|-------------------|-------|----------------|-------------|---------------|-------|`
+  ]
+
+  recentBenchmarks.forEach((entry: BenchmarkEntry, idx: number) => {
+    const date: string = new Date(entry.timestamp).toLocaleDateString()
+    if (!isMeasured(entry)) {
+      lines.push(`| ${date} | ${entry.vueVersion} | ${formatFailure(entry)} | — | — | — | — | — | — |`)
+      return
+    }
+
+    const vaporGzip: string = formatKB(entry.vapor.gzipped)
+    const classicGzip: string = `${formatKB(entry.classic.gzipped)}${entry.legacyClassic ? ' †' : ''}`
+    const entryDelta: number = entry.delta.gzipped
+    const deltaStr: string = entryDelta > 0 ? `+${formatKB(entryDelta)}` : formatKB(entryDelta)
+
+    // Calculate trend against the previous version that built
+    let trend: string = '—'
+    const prev: MeasuredEntry | undefined = recentBenchmarks.slice(idx + 1).find(isMeasured)
+    if (prev) {
+      const change: number = entry.vapor.gzipped - prev.vapor.gzipped
+      const threshold: number = getTrendThreshold(entry, prev)
+      if (change < -threshold) trend = '↓ Improving'
+      else if (change > threshold) trend = '↑ Regressing'
+      else trend = '→ Stable'
+    }
+    if (isNondeterministic(entry)) trend += ' ⚠️ nondeterministic'
+
+    lines.push(`| ${date} | ${entry.vueVersion} | ${vaporGzip} | ${classicGzip} | ${deltaStr} | ${formatOptionalKB(entry.vapor.brotli)} | ${formatMs(entry.buildTime?.vapor.build)} | ${formatMs(entry.buildTime?.classic.build)} | ${trend} |`)
+  })
+
+  if (recentBenchmarks.some((entry: BenchmarkEntry) => isMeasured(entry) && entry.legacyClassic)) {
+    lines.push(``, `† Classic build kept ViteLogo.vue and VueLogo.vue as Vapor; not comparable with later Classic sizes.`)
+  }
+
+  return lines
+}
+
+/**
+ * Generate a markdown benchmark report with current results and history
+ * @param current - Current benchmark entries, one per fixture
+ * @param history - Historical benchmark data for trend analysis
+ * @returns Formatted markdown string
+ */
+function generateMarkdownReport(current: BenchmarkEntry[], history: BenchmarkHistory): string {
+  const [first] = current
+  const timestamp: string = new Date(first.timestamp).toLocaleString()
+  const measured: MeasuredEntry[] = current.filter(isMeasured)
+  const failed: FailedEntry[] = current.filter((entry: BenchmarkEntry): entry is FailedEntry => !isMeasured(entry))
+  const nondeterministic: MeasuredEntry[] = measured.filter(isNondeterministic)
+  const withFallbacks: MeasuredEntry[] = measured.filter((entry: MeasuredEntry) => findVaporFallbacks(entry.vaporOutput).length > 0)
+
+  let markdown: string[] = [
+    `# Build Benchmark Report`,
+    ``,
+    `**Generated**: ${timestamp}`,
+    `**Vue Version**: ${first.vueVersion}`,
+    `**Mode**: ${first.mode === 'inspect' ? 'Inspection (readable)' : 'Production benchmark'}`,
+    `**Fixtures**: ${current.map((entry: BenchmarkEntry) => entry.fixture).join(', ')}`,
+    ...(failed.length > 0 ? [`**Status**: ❌ ${failed.length} fixture(s) failed to build (see Build Failures)`] : []),
+    ...(first.mode === 'inspect' ? [`**Source diff**: [source-diff.html](source-diff.html) (compiled modules side by side)`] : []),
+    ...(nondeterministic.length > 0
+      ? [`**Determinism**: ⚠️ Output differed between runs for ${nondeterministic.map((entry: MeasuredEntry) => entry.fixture).join(', ')} (see Build Determinism)`]
+      : []),
+    ...(withFallbacks.length > 0
+      ? [`**Vapor fallbacks**: ⚠️ VDOM output in the Vapor build of ${withFallbacks.map((entry: MeasuredEntry) => entry.fixture).join(', ')} (see Vapor Output)`]
+      : []),
+    ``,
+    `## Current Build`,
+    ``,
+    `| Fixture | Build | Raw Size | Gzipped | Brotli | Zstd | Compression Ratio |`,
+    `|---------|-------|----------|---------|--------|------|-------------------|`,
+  ]
+
+  for (const entry of current) {
+    if (isMeasured(entry)) {
+      markdown.push(
+        formatBuildRow(entry.fixture, 'Vapor', entry.vapor),
+        formatBuildRow(entry.fixture, 'Classic', entry.classic),
+      )
+    } else {
+      markdown.push(
+        entry.vapor
+          ? formatBuildRow(entry.fixture, 'Vapor', entry.vapor)
+          : `| ${entry.fixture} | Vapor | ${formatFailure(entry)} | — | — | — | — |`,
+        entry.status === 'classic-failed'
+          ? `| ${entry.fixture} | Classic | ${formatFailure(entry)} | — | — | — | — |`
+          : `| ${entry.fixture} | Classic | — (not built) | — | — | — | — |`,
+      )
+    }
+  }
+
+  if (measured.length > 0) {
+    markdown.push(
+      ``,
+      `**Delta (Vapor - Classic)**:`,
+      ``,
+      ...measured.map((entry: MeasuredEntry) =>
+        `- ${entry.fixture}: ${formatDeltaLabel(entry.delta.gzipped)} · brotli ${formatSignedKB(entry.delta.brotli)} · zstd ${formatSignedKB(entry.delta.zstd)}`
+      ),
+    )
+  }
+
+  if (failed.length > 0) {
+    markdown.push(``, `## Build Failures`)
+    for (const entry of failed) {
+      markdown.push(``, `### ${entry.fixture}: ${formatFailure(entry)}`, ``, '```', entry.error, '```')
+    }
+  }
+
+  if (measured.length > 0) {
+    markdown.push(``, `## Size by Type`, ``, ...generateTypeTable(measured))
+    markdown.push(``, `## Largest Files`, ``, ...generateLargestFilesTable(measured))
+    markdown.push(``, `## Bytes by Package`, ``, ...generatePackageTable(measured))
+  }
+
+  const vaporOutputTable: string[] = generateVaporOutputTable(measured)
+  if (vaporOutputTable.length > 0) {
+    markdown.push(``, `## Vapor Output`, ``, ...vaporOutputTable)
+  }
+
+  const buildTimeTable: string[] = generateBuildTimeTable(measured)
+  if (buildTimeTable.length > 0) {
+    markdown.push(``, `## Build Time`, ``, ...buildTimeTable)
+  }
+
+  const determinismTable: string[] = generateDeterminismTable(measured)
+  if (determinismTable.length > 0) {
+    markdown.push(``, `## Build Determinism`, ``, ...determinismTable)
+  }
+
+  const runtimeTable: string[] = generateRuntimeTable(measured)
+  if (runtimeTable.length > 0) {
+    markdown.push(``, `## Runtime Performance`, ``, ...runtimeTable)
+  }
+
+  const memoryTable: string[] = generateMemoryTable(measured)
+  if (memoryTable.length > 0) {
+    markdown.push(``, `## Memory Footprint`, ``, ...memoryTable)
+  }
+
+  const ssrTable: string[] = generateSsrTable(measured)
+  if (ssrTable.length > 0) {
+    markdown.push(``, `## SSR and Hydration`, ``, ...ssrTable)
+  }
+
+  const interopTable: string[] = generateInteropTable(measured)
+  if (interopTable.length > 0) {
+    markdown.push(``, `## Mixed-Mode Interop`, ``, ...interopTable)
+  }
+
+  // Add history section if not in inspect mode
+  if (first.mode !== 'inspect' && history.benchmarks.length > 0) {
+    markdown.push(``, `## Recent History`)
+
+    for (const entry of current) {
+      const table: string[] = generateHistoryTable(entry.fixture, history)
+      if (table.length > 0) {
+        markdown.push(``, `### ${entry.fixture}`, ``, ...table)
+      }
+    }
+  }
+
+  markdown.push(
+    ``,
+    `## Commands`,
+    ``,
+    `\`\`\`bash`,
+    `npm run benchmark                      # Run production benchmark for all fixtures`,
+    `npm run benchmark -- --fixture <name>  # Run a single fixture`,
+    `npm run benchmark:inspect              # Generate readable build for inspection`,
+    `npm run benchmark -- --runs 5          # Build each variant 5 times to detect nondeterminism`,
+    `npm run benchmark -- --format json,csv # Write summary.json and report.csv instead of report.md`,
+    `npm run benchmark -- --sfc-timing      # Also time every SFC compile`,
+    `npm run benchmark:runtime              # Also time mount/update/unmount in happy-dom`,
+    `npm run benchmark:memory               # Also measure retained heap per mounted app`,
+    `npm run benchmark:interop              # Also build the mixed-mode scenarios of interop.json`,
+    `npm run benchmark:ssr                  # Also build server bundle and hydration client`,
+    `\`\`\``,
+    ``
+  )
+
+  return markdown.join('\n')
+}
+
+/**
+ * Format a byte count with its sign for the probe tables
+ * @param bytes - Difference in bytes
+ * @returns Signed string (e.g. "+1,234 B" or "0 B")
+ */
+function formatSignedBytes(bytes: number): string {
+  return `${bytes > 0 ? '+' : bytes < 0 ? '-' : ''}${Math.abs(bytes).toLocaleString()} B`
+}
+
+/**
+ * Look up the probe an entry was built from
+ * @param entry - Probe entry (fixture `probe:<name>`)
+ * @returns Probe name
+ */
+function getProbeName(entry: BenchmarkEntry): string {
+  return entry.fixture.slice(PROBE_FIXTURE_PREFIX.length)
+}
+
+/**
+ * Generate the tree-shaking probe report
+ * Feature cost is a probe's gzipped size minus the baseline's, per runtime
+ * @param current - Probe entries of this run, baseline first
+ * @param history - History holding probe entries of earlier versions
+ * @returns Formatted markdown string
+ */
+function generateProbeReport(current: BenchmarkEntry[], history: BenchmarkHistory): string {
+  const [first] = current
+  const baseline: BenchmarkEntry | undefined = current.find((entry: BenchmarkEntry) => getProbeName(entry) === BASELINE_PROBE)
+
+  const markdown: string[] = [
+    `# Tree-Shaking Probe Report`,
+    ``,
+    `**Generated**: ${new Date(first.timestamp).toLocaleString()}`,
+    `**Vue Version**: ${first.vueVersion}`,
+    `**Baseline**: \`createVaporApp\` with a static template, built with the ship config`,
+    ``,
+    `## Feature Cost`,
+    ``,
+  ]
+
+  if (!baseline || !isMeasured(baseline)) {
+    markdown.push(`❌ The baseline did not build, so feature costs are unavailable.`)
+  } else {
+    markdown.push(
+      `Gzipped bytes each feature adds over the baseline (${formatKB(baseline.vapor.gzipped)} Vapor, ${formatKB(baseline.classic.gzipped)} Classic).`,
+      ``,
+      `| Feature | Uses | Vapor cost | Classic cost | Vapor - Classic |`,
+      `|---------|------|------------|--------------|-----------------|`,
+    )
+    for (const entry of current) {
+      const name: string = getProbeName(entry)
+      if (name === BASELINE_PROBE) continue
+      const description: string = PROBES.find((p: Probe) => p.name === name)?.description ?? ''
+      if (!isMeasured(entry)) {
+        markdown.push(`| ${name} | ${description} | ${formatFailure(entry)} | — | — |`)
+        continue
+      }
+      const vaporCost: number = entry.vapor.gzipped - baseline.vapor.gzipped
+      const classicCost: number = entry.classic.gzipped - baseline.classic.gzipped
+      markdown.push(`| ${name} | ${description} | ${formatSignedBytes(vaporCost)} | ${formatSignedBytes(classicCost)} | ${formatSignedBytes(vaporCost - classicCost)} |`)
+    }
+  }
+
+  // Vapor feature cost per version, newest first
+  const probeEntries: BenchmarkEntry[] = history.benchmarks.filter((b: BenchmarkEntry) => b.mode === 'probe')
+  const versions: string[] = [...new Set(probeEntries.map((b: BenchmarkEntry) => b.vueVersion))]
+    .slice(-HISTORY_DISPLAY_LIMIT)
+    .reverse()
+  const features: string[] = PROBES.map((p: Probe) => p.name).filter((name: string) => name !== BASELINE_PROBE)
+
+  if (versions.length > 0) {
+    markdown.push(
+      ``,
+      `## Vapor Feature Cost by Version`,
+      ``,
+      `| Vue Version | ${features.join(' | ')} |`,
+      `|-------------|${features.map((name: string) => '-'.repeat(name.length + 2)).join('|')}|`,
+    )
+    for (const version of versions) {
+      const find = (name: string): BenchmarkEntry | undefined =>
+        probeEntries.find((b: BenchmarkEntry) => b.vueVersion === version && getProbeName(b) === name)
+      const base: BenchmarkEntry | undefined = find(BASELINE_PROBE)
+      const cells: string[] = features.map((name: string) => {
+        const entry: BenchmarkEntry | undefined = find(name)
+        if (!entry) return '—'
+        if (!isMeasured(entry)) return '❌'
+        return base && isMeasured(base) ? formatSignedBytes(entry.vapor.gzipped - base.vapor.gzipped) : '—'
+      })
+      markdown.push(`| ${version} | ${cells.join(' | ')} |`)
+    }
+  }
+
+  markdown.push(
+    ``,
+    `## Commands`,
+    ``,
+    `\`\`\`bash`,
+    `npm run benchmark:probe                            # Probe every feature`,
+    `npm run benchmark:probe -- --feature ref,v-for     # Probe selected features (baseline always included)`,
+    `npm run benchmark:probe -- --vue 3.6.0-beta.3      # Probe another Vue version`,
+    `\`\`\``,
+    ``,
+  )
+
+  return markdown.join('\n')
+}
+
+/**
+ * Generate the build profile report
+ * @param current - Profile entries of this run, grouped by fixture in profile order
+ * @param history - History holding profile entries of earlier versions
+ * @param config - Profile file, for the settings of each profile
+ * @returns Formatted markdown string
+ */
+function generateProfileReport(current: BenchmarkEntry[], history: BenchmarkHistory, config: ProfileConfig): string {
+  const [first] = current
+  const fixtureNames: string[] = [...new Set(current.map((entry: BenchmarkEntry) => entry.fixture))]
+
+  const markdown: string[] = [
+    `# Build Profile Report`,
+    ``,
+    `**Generated**: ${new Date(first.timestamp).toLocaleString()}`,
+    `**Vue Version**: ${first.vueVersion}`,
+    `**Profiles**: ${path.relative(root, paths.profiles)}`,
+    ``,
+    `Gzipped sizes per profile. Settings a profile leaves out keep the ship build's values; 🏆 marks each runtime's smallest build.`,
+  ]
+
+  for (const fixture of fixtureNames) {
+    const entries: BenchmarkEntry[] = current.filter((entry: BenchmarkEntry) => entry.fixture === fixture)
+    const measured: MeasuredEntry[] = entries.filter(isMeasured)
+    const smallest = (variant: 'vapor' | 'classic'): number => Math.min(...measured.map((entry: MeasuredEntry) => entry[variant].gzipped))
+    const formatSize = (bytes: number, min: number): string => `${formatKB(bytes)}${bytes === min ? ' 🏆' : ''}`
+
+    markdown.push(
+      ``,
+      `## ${fixture}`,
+      ``,
+      `| Profile | Settings | Vapor | Classic | Vapor - Classic | Vapor vs Previous |`,
+      `|---------|----------|-------|---------|-----------------|-------------------|`,
+    )
+    for (const entry of entries) {
+      const name: string = entry.profile!
+      const settings: string = describeProfile(config.profiles[name] ?? {})
+      if (!isMeasured(entry)) {
+        markdown.push(`| ${name} | ${settings} | ${formatFailure(entry)} | — | — | — |`)
+        continue
+      }
+      const previous: MeasuredEntry | undefined = findPreviousEntry(history.benchmarks, fixture, entry.vueVersion, name)
+      const sincePrevious: string = previous
+        ? `${formatSignedKB(entry.vapor.gzipped - previous.vapor.gzipped)} since ${previous.vueVersion}`
+        : '—'
+      markdown.push(
+        `| ${name} | ${settings} | ${formatSize(entry.vapor.gzipped, smallest('vapor'))} | ${formatSize(entry.classic.gzipped, smallest('classic'))} | ${formatSignedKB(entry.delta.gzipped)} | ${sincePrevious} |`
+      )
+    }
+  }
+
+  markdown.push(
+    ``,
+    `## Commands`,
+    ``,
+    `\`\`\`bash`,
+    `npm run benchmark:profiles                          # Build every fixture with every profile`,
+    `npm run benchmark -- --profile terser,es2020        # Build with selected profiles`,
+    `npm run benchmark:profiles -- --fixture example     # Build one fixture with every profile`,
+    `\`\`\``,
+    ``,
+  )
+
+  return markdown.join('\n')
+}
+
+/**
+ * Create a benchmark entry for one fixture from measured sizes
+ * @param fixture - Fixture the sizes belong to
+ * @param vapor - Vapor build sizes
+ * @param classic - Classic build sizes
+ * @param measurements - Optional measurements (build time, runtime, memory, interop, SSR, Vapor output) that were taken
+ * @returns Benchmark entry for history and report
+ */
+function createEntry(
+  fixture: Fixture,
+  vapor: BuildMetrics,
+  classic: BuildMetrics,
+  measurements: OptionalMeasurements = {}
+): MeasuredEntry {
+  const { buildTime, runtime, memory, interop, ssr, vaporOutput } = measurements
+  return {
+    timestamp: new Date().toISOString(),
+    mode: getEntryMode(),
+    fixture: fixture.name,
+    status: 'ok',
+    vapor,
+    classic,
+    delta: diffMetrics(vapor, classic),
+    ...(buildTime && { buildTime }),
+    ...(runtime && { runtime }),
+    ...(memory && { memory }),
+    ...(interop && { interop }),
+    ...(ssr && { ssr }),
+    ...(vaporOutput && { vaporOutput }),
+    vueVersion: getVueVersion()
+  }
+}
+
+/**
+ * Create a benchmark entry for a fixture whose type-check or build failed
+ * @param fixture - Fixture that failed
+ * @param status - Which step or variant failed
+ * @param err - Error thrown by runTypeCheck() or runBuild()
+ * @param vapor - Vapor build sizes, when only the Classic build failed
+ * @returns Benchmark entry for history and report
+ */
+function createFailedEntry(
+  fixture: Fixture,
+  status: FailedEntry['status'],
+  err: unknown,
+  vapor?: BuildMetrics
+): FailedEntry {
+  return {
+    timestamp: new Date().toISOString(),
+    mode: getEntryMode(),
+    fixture: fixture.name,
+    status,
+    error: excerptError(err),
+    ...(vapor && { vapor }),
+    vueVersion: getVueVersion()
+  }
+}
+
+/**
+ * Update history and write the report in every selected format
+ * @param entries - Benchmark entries, one per fixture
+ */
+function writeReport(entries: BenchmarkEntry[]): void {
+  // Only save to history if benchmarking (not inspecting)
+  if (!isInspectMode) {
+    writeHistory(paths.history, entries)
+  }
+
+  const history: BenchmarkHistory = readHistory(paths.history)
+  mkdirSync(paths.artifacts, { recursive: true })
+
+  if (outputFormats.includes('markdown') || isStepSummary) {
+    // Generate markdown report with history
+    const markdown: string = generateMarkdownReport(entries, history)
+    if (outputFormats.includes('markdown')) {
+      writeFileSync(paths.report, markdown)
+      console.log(`Report saved to ${path.relative(root, paths.report)}`)
+    }
+    if (isStepSummary) {
+      writeStepSummary(markdown)
+    }
+  }
+
+  if (outputFormats.includes('json') || outputFormats.includes('csv')) {
+    const summary: BenchmarkSummary = createSummary(entries, history)
+    if (outputFormats.includes('json')) {
+      writeFileSync(paths.summary, `${JSON.stringify(summary, null, 2)}\n`)
+      console.log(`Summary saved to ${path.relative(root, paths.summary)}`)
+    }
+    if (outputFormats.includes('csv')) {
+      writeFileSync(paths.csv, formatCsv(summary))
+      console.log(`CSV saved to ${path.relative(root, paths.csv)}`)
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Budget Checks
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read the budget file
+ * Unlike history, a missing or malformed budget file is an error
+ * @returns Parsed budget configuration
+ */
+function readBudgets(): BudgetConfig {
+  const config = JSON.parse(readFileSync(paths.budgets, 'utf8')) as BudgetConfig
+  if (typeof config.default !== 'object' || config.default === null) {
+    throw new Error(`${path.relative(root, paths.budgets)} must define a "default" budget`)
+  }
+  return config
+}
+
+/**
+ * Check one fixture's entry against its budget
+ * @param entry - Entry to check
+ * @param previous - Same fixture's last measured entry before this version, if any
+ * @param budget - Effective budget for the fixture
+ * @returns One result per configured limit
+ */
+function checkBudget(entry: BenchmarkEntry, previous: MeasuredEntry | undefined, budget: Budget): BudgetResult[] {
+  if (!isMeasured(entry)) {
+    return [{ fixture: entry.fixture, check: 'Build status', actual: entry.status, limit: 'ok', passed: false }]
+  }
+
+  const results: BudgetResult[] = []
+  const vapor: number = entry.vapor.gzipped
+  const classic: number = entry.classic.gzipped
+
+  if (budget.maxVaporGzipped !== undefined) {
+    results.push({
+      fixture: entry.fixture,
+      check: 'Vapor gzipped size',
+      actual: formatKB(vapor),
+      limit: `≤ ${formatKB(budget.maxVaporGzipped)}`,
+      passed: vapor <= budget.maxVaporGzipped,
+    })
+  }
+
+  if (budget.maxGrowthPercent !== undefined && previous) {
+    const growth: number = ((vapor - previous.vapor.gzipped) / previous.vapor.gzipped) * 100
+    results.push({
+      fixture: entry.fixture,
+      check: `Growth since ${previous.vueVersion}`,
+      actual: `${growth > 0 ? '+' : ''}${growth.toFixed(1)}% (${formatKB(previous.vapor.gzipped)} → ${formatKB(vapor)})`,
+      limit: `≤ +${budget.maxGrowthPercent}%`,
+      passed: growth <= budget.maxGrowthPercent,
+    })
+  }
+
+  if (budget.minSavingPercent !== undefined) {
+    const saving: number = ((classic - vapor) / classic) * 100
+    results.push({
+      fixture: entry.fixture,
+      check: 'Saving over Classic',
+      actual: `${saving.toFixed(1)}% (${formatSignedKB(vapor - classic)})`,
+      limit: `≥ ${budget.minSavingPercent}%`,
+      passed: saving >= budget.minSavingPercent,
+    })
+  }
+
+  return results
+}
+
+/**
+ * Entries a standalone --check run checks
+ * History is sorted by version, so its last version is not necessarily the one
+ * a run just wrote (e.g. a backfilled release); --summary names that run's entries.
+ * Both honor --fixture.
+ * @returns Entries of the run from --summary, or of the latest version in history
+ * @throws Error when there is nothing to check or the summary is not a benchmark run's
+ */
+function selectCheckedEntries(): BenchmarkEntry[] {
+  if (checkSummary) {
+    const file: string = path.resolve(root, checkSummary)
+    const summary: BenchmarkSummary = JSON.parse(readFileSync(file, 'utf8'))
+    if (summary.mode !== 'benchmark') {
+      throw new Error(`${path.relative(root, file)} is the summary of a ${summary.mode} run, not a benchmark run`)
+    }
+    return summary.fixtures
+      .map((f: FixtureSummary) => f.current)
+      .filter((b: BenchmarkEntry) => fixtureFilter.length === 0 || fixtureFilter.includes(b.fixture))
+  }
+
+  const benchmarks: BenchmarkEntry[] = readHistory(paths.history).benchmarks
+    .filter((b: BenchmarkEntry) => b.mode === 'benchmark')
+    .filter((b: BenchmarkEntry) => fixtureFilter.length === 0 || fixtureFilter.includes(b.fixture))
+  if (benchmarks.length === 0) {
+    throw new Error(`No benchmark entries in ${path.relative(root, paths.history)} to check`)
+  }
+  const version: string = benchmarks[benchmarks.length - 1].vueVersion
+  return benchmarks.filter((b: BenchmarkEntry) => b.vueVersion === version)
+}
+
+/**
+ * Check benchmark entries against the budget file
+ * Prints a markdown table, writes it to artifacts/budget-report.md and
+ * compares every fixture with its entry for the previous version in history
+ * @param current - Entries to check, all of one Vue version
+ * @returns Whether all budgets were met
+ * @throws Error when there are no entries to check
+ */
+function runBudgetCheck(current: BenchmarkEntry[]): boolean {
+  const config: BudgetConfig = readBudgets()
+  const benchmarks: BenchmarkEntry[] = readHistory(paths.history).benchmarks
+    .filter((b: BenchmarkEntry) => b.mode === 'benchmark')
+
+  if (current.length === 0) {
+    throw new Error('No benchmark entries to check')
+  }
+
+  const version: string = current[0].vueVersion
+  const results: BudgetResult[] = []
+
+  for (const entry of current) {
+    const previous: MeasuredEntry | undefined = findPreviousEntry(benchmarks, entry.fixture, version)
+    const budget: Budget = { ...config.default, ...config.fixtures?.[entry.fixture] }
+    results.push(...checkBudget(entry, previous, budget))
+  }
+
+  const failed: BudgetResult[] = results.filter((r: BudgetResult) => !r.passed)
+  const markdown: string[] = [
+    `# Budget Check`,
+    ``,
+    `**Vue Version**: ${version}`,
+    `**Budgets**: ${path.relative(root, paths.budgets)}`,
+    `**Result**: ${failed.length === 0 ? 'All budgets met' : `${failed.length} budget(s) exceeded`}`,
+    ``,
+    `| | Fixture | Check | Actual | Budget |`,
+    `|-|---------|-------|--------|--------|`,
+    ...results.map((r: BudgetResult) =>
+      `| ${r.passed ? '✅' : '❌'} | ${r.fixture} | ${r.check} | ${r.actual} | ${r.limit} |`
+    ),
+    ``,
+  ]
+
+  mkdirSync(paths.artifacts, { recursive: true })
+  writeFileSync(paths.budgetReport, markdown.join('\n'))
+  console.log(markdown.join('\n'))
+  console.log(`Budget report saved to ${path.relative(root, paths.budgetReport)}`)
+  if (isStepSummary) {
+    writeStepSummary(markdown.join('\n'))
+  }
+
+  return failed.length === 0
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main Execution
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build one variant of a fixture `runs` times and measure it
+ * The last run's output is kept in outputDir; with more than one run the
+ * spread and hash comparison of all runs are recorded as `repeat`
+ * @param fixture - Fixture to build
+ * @param variant - Runtime to build for
+ * @param outputDir - Directory receiving the build output
+ * @returns Sizes of the last run and median timings over all runs
+ * @throws Error from runBuild() when any run fails
+ */
+async function buildVariant(
+  fixture: Fixture,
+  variant: 'vapor' | 'classic',
+  outputDir: string
+): Promise<VariantBuild> {
+  const samples: BuildMetrics[] = []
+  const timings: BuildTimings[] = []
+  let vaporOutput: CompiledModule[] | undefined
+
+  for (let run = 1; run <= runs; run++) {
+    if (runs > 1) console.log(`[${fixture.name}] ${variant} run ${run}/${runs}`)
+    cleanDist()
+    const result: BuildResult = await runBuild(fixture, variant)
+    captureOutput(outputDir)
+    samples.push({ ...measureDirectory(outputDir), packages: result.packages })
+    timings.push({ build: result.build, ...(result.sfcCompile && { sfcCompile: result.sfcCompile }) })
+    vaporOutput = result.vaporOutput
+  }
+
+  const last: BuildMetrics = samples[samples.length - 1]
+  return {
+    metrics: runs > 1 ? { ...last, repeat: summarizeRuns(samples) } : last,
+    timings: summarizeTimings(timings),
+    ...(vaporOutput && { vaporOutput }),
+  }
+}
+
+/**
+ * Reduce the timings of repeated builds to their median per step and SFC
+ * @param timings - Timings of every run
+ * @returns Median timings
+ */
+function summarizeTimings(timings: BuildTimings[]): BuildTimings {
+  const sfcFiles: string[] = [...new Set(timings.flatMap((t: BuildTimings) => Object.keys(t.sfcCompile ?? {})))]
+  return {
+    build: medianMs(timings.map((t: BuildTimings) => t.build)),
+    ...(sfcFiles.length > 0 && {
+      sfcCompile: Object.fromEntries(sfcFiles.sort().map((file: string) => [
+        file,
+        medianMs(timings.map((t: BuildTimings) => t.sfcCompile?.[file] ?? 0)),
+      ])),
+    }),
+  }
+}
+
+/**
+ * Describe the spread of repeated builds for the console summary
+ * @param metrics - Variant sizes
+ * @returns Suffix such as ", 5 runs, spread 0 bytes, identical" (empty for single runs)
+ */
+function formatRepeatSummary(metrics: BuildMetrics): string {
+  const { repeat } = metrics
+  if (!repeat) return ''
+  return `, ${repeat.runs} runs, spread ${repeat.max.gzipped - repeat.min.gzipped} bytes, ${repeat.identical ? 'identical' : 'NONDETERMINISTIC'}`
+}
+
+/**
+ * Build a fixture with the mount hook and measure retained heap per instance
+ * The instrumented output goes to artifacts/<fixture>/memory/<variant>
+ * @param fixture - Fixture to measure
+ * @param variant - Runtime to build for
+ * @returns Retained heap metrics
+ */
+async function measureBuildMemory(fixture: Fixture, variant: 'vapor' | 'classic'): Promise<MemoryMetrics> {
+  const outputDir: string = path.join(paths.artifacts, fixture.name, 'memory', variant)
+
+  runTypeCheck(fixture)
+  cleanDist()
+  await runBuild(fixture, variant, [mountHookPlugin(path.join(root, fixture.entry))])
+  captureOutput(outputDir)
+
+  return measureMemory(outputDir, memoryInstances)
+}
+
+/**
+ * Build a fixture once per interop scenario and measure it
+ * Sources are the same as for the Vapor and Classic builds, so the type-check
+ * is not repeated. A failed scenario is recorded with its error; the
+ * fixture's entry keeps status `ok` since its Vapor and Classic builds passed.
+ * @param fixture - Fixture to build
+ * @param scenarios - Scenarios that apply to the fixture
+ * @returns One result per scenario; output goes to artifacts/<fixture>/interop/<scenario>
+ */
+async function buildInterop(fixture: Fixture, scenarios: InteropScenario[]): Promise<InteropMetrics[]> {
+  const results: InteropMetrics[] = []
+
+  for (const scenario of scenarios) {
+    const outputDir: string = path.join(paths.artifacts, fixture.name, 'interop', scenario.name)
+    const vaporSfcs: string[] = selectVaporSfcs(root, fixture, scenario)
+    const vdomSfcs: string[] = fixture.sfcs.filter((file: string) => !vaporSfcs.includes(file))
+    if (vaporSfcs.length === 0) {
+      console.warn(`[${fixture.name}] Interop scenario ${scenario.name} matches no SFCs; every component compiles to VDOM`)
+    }
+
+    console.log(`\n[${fixture.name}] Building interop scenario ${scenario.name} (${scenario.app} app, ${vaporSfcs.length} Vapor SFCs)...`)
+    const result: InteropMetrics = { scenario: scenario.name, app: scenario.app, vaporSfcs, vdomSfcs }
+    try {
+      cleanDist()
+      const { packages }: BuildResult = await runBuild(fixture, 'vapor', [interopRuntimePlugin(fixture, scenario)])
+      captureOutput(outputDir)
+      result.build = { ...measureDirectory(outputDir), packages }
+      console.log(`- ${scenario.name}: ${formatKB(result.build.raw)} (gzip ${formatKB(result.build.gzipped)})`)
+    } catch (err) {
+      result.error = excerptError(err)
+      console.error(`[${fixture.name}] Interop scenario ${scenario.name} failed to build`)
+    }
+    results.push(result)
+  }
+
+  return results
+}
+
+/**
+ * Build a fixture for SSR and measure the server bundle, rendered HTML and hydration client
+ * Output goes to artifacts/<fixture>/ssr/<variant>/{server,client} with the HTML
+ * in app.html. The type-check is not repeated; a failed step is recorded as
+ * `error` and the steps after it are skipped.
+ * @param fixture - Fixture to build
+ * @param variant - Runtime to build for
+ * @returns Sizes of every step that succeeded
+ */
+async function measureSsr(fixture: Fixture, variant: 'vapor' | 'classic'): Promise<SsrMetrics> {
+  const outputDir: string = path.join(paths.artifacts, fixture.name, 'ssr', variant)
+  const serverDir: string = path.join(outputDir, 'server')
+  const clientDir: string = path.join(outputDir, 'client')
+  const result: SsrMetrics = {}
+
+  try {
+    cleanDist()
+    await runSsrBuild(fixture, variant)
+    captureOutput(serverDir)
+    result.server = pickSizes(measureDirectory(serverDir))
+
+    let html: string
+    try {
+      html = renderServerBundle(serverDir, vueSource!.vueDir)
+    } catch (err) {
+      throw new Error(`renderToString failed:\n${err instanceof Error ? err.message : String(err)}`)
+    }
+    writeFileSync(path.join(outputDir, 'app.html'), html)
+    result.html = measureContent(Buffer.from(html))
+
+    cleanDist()
+    await runBuild(fixture, variant, [hydrationEntryPlugin(path.join(root, fixture.entry))])
+    captureOutput(clientDir)
+    result.client = pickSizes(measureDirectory(clientDir))
+  } catch (err) {
+    result.error = excerptError(err)
+    console.error(`[${fixture.name}] ${variant} SSR build failed`)
+  }
+
+  return result
+}
+
+/**
+ * Describe an SSR result for the console summary
+ * @param metrics - SSR result of one variant
+ * @returns Gzipped sizes of each step, or the failed step
+ */
+function formatSsrSummary(metrics: SsrMetrics): string {
+  if (metrics.error) return `failed (${metrics.error.split('\n')[0]})`
+  return `server ${formatKB(metrics.server!.gzipped)}, hydration client ${formatKB(metrics.client!.gzipped)}, HTML ${formatKB(metrics.html!.gzipped)} (gzip)`
+}
+
+/**
+ * Build every selected fixture as Vapor and Classic, then report and record sizes
+ */
+async function runBenchmarks(): Promise<void> {
+  const mode: 'inspect' | 'benchmark' = isInspectMode ? 'inspect' : 'benchmark'
+  console.log(`Running in ${mode} mode for fixtures: ${fixtures.map((f: Fixture) => f.name).join(', ')}`)
+  if (!zstdCompress) {
+    console.warn(`zstd is not available in Node.js ${process.version}; zstd sizes will not be recorded`)
+  }
+  if ((isRuntimeMode || isMemoryMode || isSsrMode) && isInspectMode) {
+    console.warn('Runtime, memory and SSR benchmarks need minified single-chunk builds; skipping them in inspect mode')
+  }
+
+  if (!Number.isInteger(runs) || runs < 1) {
+    throw new Error(`--runs must be a positive integer, got ${getArgValues('--runs')[0]}`)
+  }
+
+  // Fail before building when the history file or scenario file is broken, not after
+  readHistory(paths.history)
+  const interopConfig: InteropConfig | undefined = isInteropMode ? readInteropConfig(paths.interop) : undefined
+
+  if (project) {
+    const { fixture, factory, vdomSfcs } = project
+    console.log(`Project ${fixture.projectRoot} (${path.relative(fixture.projectRoot, fixture.configFile)})`)
+    console.log(`- Entry ${path.relative(fixture.projectRoot, path.join(root, fixture.entry))} calls ${factory === 'vapor' ? 'createVaporApp(); Classic uses createApp()' : 'createApp(); only the SFCs change between variants'}`)
+    console.log(`- ${fixture.sfcs.length} Vapor SFCs, ${vdomSfcs.length} VDOM SFCs left as they are`)
+    if (fixture.sfcs.length === 0) {
+      console.warn('No SFC matching --sfcs uses <script setup vapor>; both variants will be the same')
+    }
+  }
+
+  // A project resolves `vue` from its own dependencies
+  vueSource = resolveVueSource(project?.fixture.projectRoot ?? root, vueSpec)
+  console.log(`Using Vue ${vueSource.version}${vueSource.spec ? ` (${vueSource.kind}: ${vueSource.spec})` : ''}`)
+
+  const entries: BenchmarkEntry[] = []
+  const inspectedModules: FixtureModules[] = []
+
+  try {
+    for (const fixture of fixtures) {
+      const vaporDir: string = path.join(paths.artifacts, fixture.name, 'vapor')
+      const classicDir: string = path.join(paths.artifacts, fixture.name, 'classic')
+
+      // Both variants build the same sources, so one type-check covers them
+      console.log(`\n[${fixture.name}] Type-checking...`)
+      let typeCheck: number
+      try {
+        typeCheck = runTypeCheck(fixture)
+      } catch (err) {
+        const entry: FailedEntry = createFailedEntry(fixture, 'typecheck-failed', err)
+        console.error(`\n[${fixture.name}] ${FAILURE_LABELS[entry.status]}, recording status ${entry.status}`)
+        entries.push(entry)
+        continue
+      }
+
+      console.log(`\n[${fixture.name}] Building Vapor output...`)
+      let vaporBuild: VariantBuild
+      try {
+        vaporBuild = await buildVariant(fixture, 'vapor', vaporDir)
+      } catch (err) {
+        const entry: FailedEntry = createFailedEntry(fixture, 'vapor-failed', err)
+        console.error(`\n[${fixture.name}] ${FAILURE_LABELS[entry.status]}, recording status ${entry.status}`)
+        entries.push(entry)
+        continue
+      }
+
+      console.log(`\n[${fixture.name}] Building classic runtime output...`)
+      const { metrics: vapor, timings: vaporTimings, vaporOutput } = vaporBuild
+
+      let classicBuild: VariantBuild
+      try {
+        classicBuild = await buildVariant(fixture, 'classic', classicDir)
+      } catch (err) {
+        const entry: FailedEntry = createFailedEntry(fixture, 'classic-failed', err, vapor)
+        console.error(`\n[${fixture.name}] ${FAILURE_LABELS[entry.status]}, recording status ${entry.status}`)
+        entries.push(entry)
+        continue
+      }
+      const { metrics: classic, timings: classicTimings } = classicBuild
+
+      console.log(`\n[${fixture.name}] Size summary (${mode})`)
+      console.log(`- Vapor output:   ${formatKB(vapor.raw)} (gzip ${formatKB(vapor.gzipped)}, brotli ${formatOptionalKB(vapor.brotli)}, zstd ${formatOptionalKB(vapor.zstd)}${formatRepeatSummary(vapor)})`)
+      console.log(`- Classic output: ${formatKB(classic.raw)} (gzip ${formatKB(classic.gzipped)}, brotli ${formatOptionalKB(classic.brotli)}, zstd ${formatOptionalKB(classic.zstd)}${formatRepeatSummary(classic)})`)
+      console.log(`- Type-check:     vue-tsc -b ${formatMs(typeCheck)} (once for both variants)`)
+      console.log(`- Vapor time:     vite build ${formatMs(vaporTimings.build)}`)
+      console.log(`- Classic time:   vite build ${formatMs(classicTimings.build)}`)
+      if (vaporOutput) {
+        const sfcs: CompiledModule[] = vaporOutput.filter((m: CompiledModule) => m.output !== 'script')
+        console.log(`- Vapor SFCs:     ${sfcs.filter((m: CompiledModule) => m.output === 'vapor').length} of ${sfcs.length}`)
+        for (const m of findVaporFallbacks(vaporOutput)) {
+          console.warn(`[${fixture.name}] ${m.file}: ${m.output === 'vdom' ? 'compiled to a VDOM render function' : 'imports VDOM helpers'}${m.vdomHelpers.length > 0 ? ` (${m.vdomHelpers.join(', ')})` : ''}`)
+        }
+      }
+      if (isInspectMode) {
+        inspectedModules.push(pairModules(fixture.name, vaporDir, classicDir))
+      }
+
+      let runtime: MeasuredEntry['runtime']
+      if (isRuntimeMode && !isInspectMode) {
+        console.log(`\n[${fixture.name}] Measuring runtime performance (${runtimeOptions.samples} samples)...`)
+        runtime = {
+          vapor: await measureRuntime(vaporDir, runtimeOptions),
+          classic: await measureRuntime(classicDir, runtimeOptions),
+        }
+        console.log(`- Vapor mount:    ${runtime.vapor.mount.median} ms (p95 ${runtime.vapor.mount.p95} ms)`)
+        console.log(`- Classic mount:  ${runtime.classic.mount.median} ms (p95 ${runtime.classic.mount.p95} ms)`)
+      }
+
+      let memory: MeasuredEntry['memory']
+      if (isMemoryMode && !isInspectMode) {
+        console.log(`\n[${fixture.name}] Measuring memory footprint (${memoryInstances} instances)...`)
+        memory = {
+          vapor: await measureBuildMemory(fixture, 'vapor'),
+          classic: await measureBuildMemory(fixture, 'classic'),
+        }
+        console.log(`- Vapor:   ${formatKB(memory.vapor.heapPerInstance)} per instance`)
+        console.log(`- Classic: ${formatKB(memory.classic.heapPerInstance)} per instance`)
+      }
+
+      let ssr: MeasuredEntry['ssr']
+      if (isSsrMode && !isInspectMode) {
+        console.log(`\n[${fixture.name}] Building for SSR and hydration...`)
+        ssr = {
+          vapor: await measureSsr(fixture, 'vapor'),
+          classic: await measureSsr(fixture, 'classic'),
+        }
+        console.log(`- Vapor:   ${formatSsrSummary(ssr.vapor)}`)
+        console.log(`- Classic: ${formatSsrSummary(ssr.classic)}`)
+      }
+
+      const interop: InteropMetrics[] | undefined = interopConfig
+        ? await buildInterop(fixture, getScenarios(interopConfig, fixture.name))
+        : undefined
+
+      const buildTime: MeasuredEntry['buildTime'] = { typeCheck, vapor: vaporTimings, classic: classicTimings }
+      entries.push(createEntry(fixture, vapor, classic, { buildTime, runtime, memory, interop, ssr, vaporOutput }))
+    }
+
+    writeReport(entries)
+
+    if (inspectedModules.length > 0) {
+      writeFileSync(paths.sourceDiff, renderSourceDiffPage(inspectedModules, getVueVersion()))
+      console.log(`Source diff saved to ${path.relative(root, paths.sourceDiff)}`)
+    }
+
+    // Failures are recorded in history, but the run still fails so CI notices
+    if (entries.some((entry: BenchmarkEntry) => !isMeasured(entry) || getFailedSteps(entry).length > 0)) {
+      process.exitCode = 1
+    }
+  } finally {
+    cleanDist()
+    vueSource.cleanup()
+  }
+
+  console.log(`\nArtifacts available under ${path.relative(root, paths.artifacts)}/<fixture>/{vapor,classic}`)
+  if (!isInspectMode) {
+    console.log(`History updated in ${path.relative(root, paths.history)}`)
+  }
+}
+
+/**
+ * Build every selected tree-shaking probe as Vapor and Classic, then report and record sizes
+ * Probes are generated sources, so they are built without `vue-tsc -b`. The
+ * sources go to a scratch directory inside the repository, where `vue`
+ * resolves from its node_modules wherever --artifacts points; only the build
+ * output is kept under artifacts/probe/.
+ */
+async function runProbes(): Promise<void> {
+  if (isInspectMode) {
+    throw new Error('--probe measures minified builds and cannot be combined with --inspect')
+  }
+
+  const probes: Probe[] = selectProbes(featureFilter)
+  console.log(`Running tree-shaking probes: ${probes.map((p: Probe) => p.name).join(', ')}`)
+
+  // Fail before building when the history file is corrupt, not after
+  readHistory(paths.history)
+
+  vueSource = resolveVueSource(root, vueSpec)
+  console.log(`Using Vue ${vueSource.version}${vueSource.spec ? ` (${vueSource.kind}: ${vueSource.spec})` : ''}`)
+
+  const entries: BenchmarkEntry[] = []
+  // Unique per run, so concurrent runs with separate --artifacts never share sources
+  const scratchDir: string = mkdtempSync(path.join(root, 'benchmark', '.probe-'))
+
+  try {
+    for (const probe of probes) {
+      const probeDir: string = path.join(paths.artifacts, 'probe', probe.name)
+      const fixture: Fixture = writeProbe(root, path.join(scratchDir, probe.name), probe)
+      const sizes: Partial<Record<'vapor' | 'classic', BuildMetrics>> = {}
+
+      for (const variant of ['vapor', 'classic'] as const) {
+        try {
+          cleanDist()
+          const { packages }: BuildResult = await runBuild(fixture, variant)
+          captureOutput(path.join(probeDir, variant))
+          sizes[variant] = { ...measureDirectory(path.join(probeDir, variant)), packages }
+        } catch (err) {
+          const entry: FailedEntry = createFailedEntry(fixture, `${variant}-failed`, err, sizes.vapor)
+          console.error(`\n[${fixture.name}] ${variant} build failed, recording status ${entry.status}`)
+          entries.push(entry)
+          break
+        }
+      }
+
+      if (sizes.vapor && sizes.classic) {
+        console.log(`[${fixture.name}] Vapor gzip ${formatKB(sizes.vapor.gzipped)}, Classic gzip ${formatKB(sizes.classic.gzipped)}`)
+        entries.push(createEntry(fixture, sizes.vapor, sizes.classic))
+      }
+    }
+
+    writeHistory(paths.history, entries)
+
+    const markdown: string = generateProbeReport(entries, readHistory(paths.history))
+    mkdirSync(paths.artifacts, { recursive: true })
+    writeFileSync(paths.probeReport, markdown)
+    console.log(`\nProbe report saved to ${path.relative(root, paths.probeReport)}`)
+    if (isStepSummary) {
+      writeStepSummary(markdown)
+    }
+
+    // Failures are recorded in history, but the run still fails so CI notices
+    if (entries.some((entry: BenchmarkEntry) => !isMeasured(entry))) {
+      process.exitCode = 1
+    }
+  } finally {
+    cleanDist()
+    rmSync(scratchDir, { recursive: true, force: true })
+    vueSource.cleanup()
+  }
+}
+
+/**
+ * Build every selected fixture as Vapor and Classic once per build profile, then report and record sizes
+ * Profiles change how sources are bundled, not the sources, so each fixture is type-checked once
+ */
+async function runProfiles(): Promise<void> {
+  if (isInspectMode || isProbeMode) {
+    throw new Error('--profile measures the ship build of fixtures and cannot be combined with --inspect or --probe')
+  }
+
+  // Fail before building when the history file or profile file is broken, not after
+  readHistory(paths.history)
+  const config: ProfileConfig = readProfileConfig(paths.profiles)
+  const profiles: string[] = selectProfiles(config, profileFilter)
+  console.log(`Running build profiles ${profiles.join(', ')} for fixtures: ${fixtures.map((f: Fixture) => f.name).join(', ')}`)
+
+  vueSource = resolveVueSource(project?.fixture.projectRoot ?? root, vueSpec)
+  console.log(`Using Vue ${vueSource.version}${vueSource.spec ? ` (${vueSource.kind}: ${vueSource.spec})` : ''}`)
+
+  const entries: BenchmarkEntry[] = []
+
+  try {
+    for (const fixture of fixtures) {
+      try {
+        runTypeCheck(fixture)
+      } catch (err) {
+        console.error(`\n[${fixture.name}] Type-check failed, recording status typecheck-failed for every profile`)
+        entries.push(...profiles.map((name: string) => ({ ...createFailedEntry(fixture, 'typecheck-failed', err), profile: name })))
+        continue
+      }
+
+      for (const name of profiles) {
+        const profile: BuildProfile = config.profiles[name]
+        const profileDir: string = path.join(paths.artifacts, fixture.name, 'profiles', name)
+        const sizes: Partial<Record<'vapor' | 'classic', BuildMetrics>> = {}
+        console.log(`\n[${fixture.name}] Building profile ${name} (${describeProfile(profile)})...`)
+
+        for (const variant of ['vapor', 'classic'] as const) {
+          try {
+            cleanDist()
+            const { packages }: BuildResult = await runBuild(fixture, variant, [], profile)
+            captureOutput(path.join(profileDir, variant))
+            sizes[variant] = { ...measureDirectory(path.join(profileDir, variant)), packages }
+          } catch (err) {
+            const entry: FailedEntry = { ...createFailedEntry(fixture, `${variant}-failed`, err, sizes.vapor), profile: name }
+            console.error(`\n[${fixture.name}] ${variant} build with profile ${name} failed, recording status ${entry.status}`)
+            entries.push(entry)
+            break
+          }
+        }
+
+        if (sizes.vapor && sizes.classic) {
+          console.log(`[${fixture.name}] ${name}: Vapor gzip ${formatKB(sizes.vapor.gzipped)}, Classic gzip ${formatKB(sizes.classic.gzipped)}`)
+          entries.push({ ...createEntry(fixture, sizes.vapor, sizes.classic), profile: name })
+        }
+      }
+    }
+
+    writeHistory(paths.history, entries)
+
+    const markdown: string = generateProfileReport(entries, readHistory(paths.history), config)
+    mkdirSync(paths.artifacts, { recursive: true })
+    writeFileSync(paths.profileReport, markdown)
+    console.log(`\nProfile report saved to ${path.relative(root, paths.profileReport)}`)
+    if (isStepSummary) {
+      writeStepSummary(markdown)
+    }
+
+    // Failures are recorded in history, but the run still fails so CI notices
+    if (entries.some((entry: BenchmarkEntry) => !isMeasured(entry))) {
+      process.exitCode = 1
+    }
+  } finally {
+    cleanDist()
+    vueSource.cleanup()
+  }
+}
+
+if (isCheckMode) {
+  if (!runBudgetCheck(selectCheckedEntries())) {
+    process.exitCode = 1
+  }
+} else if (isProbeMode) {
+  await runProbes()
+} else if (isProfileMode) {
+  await runProfiles()
+} else {
+  await runBenchmarks()
 }
@@ -0,0 +1,462 @@
+#!/usr/bin/env node
+
+/**
+ * Compare two Vue versions recorded in the benchmark history.
+ * For every fixture measured in both versions, prints the change of the Vapor
+ * and Classic sizes, of the Vapor - Classic delta, and (where the entries
+ * store them) of the per-type and per-file sizes, as markdown or JSON.
+ *
+ * Usage: diff-history.ts [<from>] [<to>] [--fixture <name>] [--format markdown|json] [--out <file>]
+ *   <to> defaults to the newest version in history, <from> to the version
+ *   measured before <to>; a single version is taken as <to>.
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import path from 'node:path'
+import { getArgValues } from './cli'
+import {
+  isMeasured,
+  readHistory,
+  type AssetType,
+  type BenchmarkEntry,
+  type FileMetrics,
+  type MeasuredEntry,
+  type SizeMetrics,
+  type TypeSizes,
+} from './history'
+import { compareSizes, type SizeChange } from './summary'
+import { compareVersions } from './version'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Type Definitions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** One size in both versions */
+interface ValueChange extends SizeChange {
+  from: number
+  to: number
+}
+
+/** Change per compression; optional metrics only when both entries have them */
+type SizeDiff = Partial<Record<keyof SizeMetrics, ValueChange>>
+
+interface TypeDiff {
+  type: AssetType
+  raw: ValueChange
+  gzipped: ValueChange
+}
+
+interface FileDiff {
+  /** Output path with the content hash removed, so files match across versions */
+  file: string
+  status: 'added' | 'removed' | 'changed'
+  raw: ValueChange
+  gzipped: ValueChange
+}
+
+/** Breakdown of one variant; absent unless both entries store it */
+interface BuildBreakdown {
+  byType?: TypeDiff[]
+  /** Files whose size changed, largest gzipped change first */
+  files?: FileDiff[]
+}
+
+interface FixtureDiff {
+  fixture: string
+  /** Set when the fixture was not measured in one of the versions; nothing else is */
+  missing?: string
+  vapor?: SizeDiff
+  classic?: SizeDiff
+  /** Vapor - Classic in both versions; `percent` is left null since the base is usually negative */
+  delta?: SizeDiff
+  /** Vapor gzipped size relative to Classic in percent, per version */
+  vaporVsClassicPercent?: { from: number | null; to: number | null }
+  breakdown?: { vapor: BuildBreakdown; classic: BuildBreakdown }
+  /** Set when only one version's Classic build kept some SFCs Vapor (`legacyClassic`) */
+  classicMismatch?: string
+}
+
+interface HistoryDiff {
+  from: string
+  to: string
+  fixtures: FixtureDiff[]
+}
+
+type DiffFormat = 'markdown' | 'json'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+const __dirname: string = fileURLToPath(new URL('.', import.meta.url))
+const root: string = path.resolve(__dirname, '../..')
+const historyFile: string = path.resolve(root, getArgValues('--history')[0] ?? 'benchmark/results/build-history.json')
+const fixtureFilter: string[] = getArgValues('--fixture')
+const format: string = getArgValues('--format')[0] ?? 'markdown'
+const outFile: string | undefined = getArgValues('--out')[0]
+
+/** Flags that take a value, so their values are not read as versions */
+const VALUE_FLAGS: string[] = ['--history', '--fixture', '--format', '--out']
+
+const DIFF_FORMATS: DiffFormat[] = ['markdown', 'json']
+
+const SIZE_LABELS: [keyof SizeMetrics, string][] = [
+  ['raw', 'Raw'],
+  ['gzipped', 'Gzipped'],
+  ['brotli', 'Brotli'],
+  ['zstd', 'Zstd'],
+]
+
+const ASSET_TYPES: AssetType[] = ['js', 'css', 'html', 'other']
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CLI Arguments
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Arguments that are neither flags nor flag values
+ * @returns Positional arguments in order
+ */
+function getPositionalArgs(): string[] {
+  const positional: string[] = []
+  const args: string[] = process.argv.slice(2)
+  for (let i = 0; i < args.length; i++) {
+    if (VALUE_FLAGS.includes(args[i])) {
+      i++
+    } else if (!args[i].startsWith('--')) {
+      positional.push(args[i])
+    }
+  }
+  return positional
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Comparison
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Pick the versions to compare
+ * @param measured - Versions with at least one measured entry, oldest first
+ * @param requested - Versions given on the command line
+ * @returns From and to version
+ * @throws Error when a requested version is not in history or nothing precedes `to`
+ */
+function resolveVersions(measured: string[], requested: string[]): [string, string] {
+  if (requested.length > 2) {
+    throw new Error(`Expected at most two versions, got ${requested.join(' ')}`)
+  }
+  for (const version of requested) {
+    if (!measured.includes(version)) {
+      throw new Error(`No measured benchmark entry for Vue ${version} in ${path.relative(root, historyFile)}`)
+    }
+  }
+
+  const to: string | undefined = requested.length > 0 ? requested[requested.length - 1] : measured.slice(-1)[0]
+  const from: string | undefined = requested.length === 2
+    ? requested[0]
+    : measured.filter((version: string) => to !== undefined && compareVersions(version, to) < 0).slice(-1)[0]
+  if (!to || !from) {
+    throw new Error(`Need a version measured before ${to ?? 'the newest version'} to compare with`)
+  }
+  return [from, to]
+}
+
+/**
+ * Compare two sizes keeping both values
+ * @param from - Size in the older version
+ * @param to - Size in the newer version
+ * @returns Change from `from` to `to`
+ */
+function diffValue(from: number, to: number): ValueChange {
+  const change: SizeChange = compareSizes({ raw: to, gzipped: to }, { raw: from, gzipped: from }).raw!
+  return { from, to, ...change }
+}
+
+/**
+ * Compare two sets of sizes per compression
+ * @param from - Sizes in the older version
+ * @param to - Sizes in the newer version
+ * @returns Change for every metric both sides have
+ */
+function diffSizes(from: SizeMetrics, to: SizeMetrics): SizeDiff {
+  const diff: SizeDiff = {}
+  for (const [key, change] of Object.entries(compareSizes(to, from)) as [keyof SizeMetrics, SizeChange][]) {
+    diff[key] = { from: from[key]!, to: to[key]!, ...change }
+  }
+  return diff
+}
+
+/**
+ * Drop the content hash Vite adds to asset names (`index-A8eUn9pp.js` → `index.js`)
+ */
+function normalizeFileName(file: string): string {
+  return file.replace(/-[\w-]{8}(\.[a-z]+)$/, '$1')
+}
+
+/**
+ * Sum file sizes per normalized name
+ * @param files - Files of one build
+ * @returns Sizes per normalized file name
+ */
+function groupFiles(files: FileMetrics[]): Map<string, TypeSizes> {
+  const grouped: Map<string, TypeSizes> = new Map()
+  for (const file of files) {
+    const name: string = normalizeFileName(file.file)
+    const sizes: TypeSizes = grouped.get(name) ?? { raw: 0, gzipped: 0 }
+    grouped.set(name, { raw: sizes.raw + file.raw, gzipped: sizes.gzipped + file.gzipped })
+  }
+  return grouped
+}
+
+/**
+ * Compare the per-type and per-file sizes of one variant
+ * @param from - Variant sizes in the older version
+ * @param to - Variant sizes in the newer version
+ * @returns Breakdown, with parts only when both entries store them
+ */
+function diffBreakdown(from: MeasuredEntry['vapor'], to: MeasuredEntry['vapor']): BuildBreakdown {
+  const breakdown: BuildBreakdown = {}
+
+  if (from.byType && to.byType) {
+    breakdown.byType = ASSET_TYPES.map((type: AssetType) => ({
+      type,
+      raw: diffValue(from.byType![type].raw, to.byType![type].raw),
+      gzipped: diffValue(from.byType![type].gzipped, to.byType![type].gzipped),
+    }))
+  }
+
+  if (from.files && to.files) {
+    const before: Map<string, TypeSizes> = groupFiles(from.files)
+    const after: Map<string, TypeSizes> = groupFiles(to.files)
+    const empty: TypeSizes = { raw: 0, gzipped: 0 }
+    breakdown.files = [...new Set([...before.keys(), ...after.keys()])]
+      .map((file: string): FileDiff => {
+        const a: TypeSizes = before.get(file) ?? empty
+        const b: TypeSizes = after.get(file) ?? empty
+        return {
+          file,
+          status: !before.has(file) ? 'added' : !after.has(file) ? 'removed' : 'changed',
+          raw: diffValue(a.raw, b.raw),
+          gzipped: diffValue(a.gzipped, b.gzipped),
+        }
+      })
+      .filter((f: FileDiff) => f.raw.bytes !== 0 || f.gzipped.bytes !== 0)
+      .sort((a: FileDiff, b: FileDiff) => Math.abs(b.gzipped.bytes) - Math.abs(a.gzipped.bytes) || a.file.localeCompare(b.file))
+  }
+
+  return breakdown
+}
+
+/**
+ * Vapor gzipped size relative to Classic
+ * @returns Percent difference, null when Classic is 0
+ */
+function vaporVsClassic(entry: MeasuredEntry): number | null {
+  return compareSizes(entry.vapor, entry.classic).gzipped?.percent ?? null
+}
+
+/**
+ * Compare one fixture between two versions
+ * @param fixture - Fixture name
+ * @param from - Newest measured entry in the older version
+ * @param to - Newest measured entry in the newer version
+ * @param versions - Version names for the missing note
+ * @returns Fixture diff
+ */
+function diffFixture(
+  fixture: string,
+  from: MeasuredEntry | undefined,
+  to: MeasuredEntry | undefined,
+  versions: [string, string]
+): FixtureDiff {
+  if (!from || !to) {
+    return { fixture, missing: `Not measured in ${!from ? versions[0] : versions[1]}` }
+  }
+
+  const delta: SizeDiff = diffSizes(from.delta, to.delta)
+  for (const change of Object.values(delta)) {
+    change.percent = null
+  }
+
+  return {
+    fixture,
+    vapor: diffSizes(from.vapor, to.vapor),
+    classic: diffSizes(from.classic, to.classic),
+    delta,
+    vaporVsClassicPercent: { from: vaporVsClassic(from), to: vaporVsClassic(to) },
+    breakdown: { vapor: diffBreakdown(from.vapor, to.vapor), classic: diffBreakdown(from.classic, to.classic) },
+    ...(Boolean(from.legacyClassic) !== Boolean(to.legacyClassic) && {
+      classicMismatch: `${from.legacyClassic ? versions[0] : versions[1]} was recorded when the Classic build kept ViteLogo.vue and VueLogo.vue as Vapor; Classic changes include that methodology change`,
+    }),
+  }
+}
+
+/**
+ * Compare two versions for every fixture in either of them
+ * @param benchmarks - History entries
+ * @param requested - Versions given on the command line
+ * @returns Diff of every selected fixture
+ */
+function diffHistory(benchmarks: BenchmarkEntry[], requested: string[]): HistoryDiff {
+  const measured: MeasuredEntry[] = benchmarks
+    .filter(isMeasured)
+    .filter((entry: MeasuredEntry) => entry.mode === 'benchmark')
+    .filter((entry: MeasuredEntry) => fixtureFilter.length === 0 || fixtureFilter.includes(entry.fixture))
+  const versions: string[] = [...new Set(measured.map((entry: MeasuredEntry) => entry.vueVersion))].sort(compareVersions)
+  const [from, to] = resolveVersions(versions, requested)
+
+  const find = (fixture: string, version: string): MeasuredEntry | undefined =>
+    measured.filter((entry: MeasuredEntry) => entry.fixture === fixture && entry.vueVersion === version).slice(-1)[0]
+  const fixtures: string[] = [...new Set(measured
+    .filter((entry: MeasuredEntry) => entry.vueVersion === from || entry.vueVersion === to)
+    .map((entry: MeasuredEntry) => entry.fixture))]
+
+  return {
+    from,
+    to,
+    fixtures: fixtures.map((fixture: string) => diffFixture(fixture, find(fixture, from), find(fixture, to), [from, to])),
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Markdown
+// ─────────────────────────────────────────────────────────────────────────────
+
+function formatBytes(bytes: number): string {
+  return `${bytes.toLocaleString('en-US')} B`
+}
+
+function formatSignedBytes(bytes: number): string {
+  return `${bytes > 0 ? '+' : bytes < 0 ? '-' : ''}${formatBytes(Math.abs(bytes))}`
+}
+
+function formatPercent(percent: number | null): string {
+  if (percent === null) return '—'
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(2)}%`
+}
+
+/**
+ * Table cells for one size change: from | to | change | change %
+ */
+function formatChangeCells(change: ValueChange): string {
+  return `${formatBytes(change.from)} | ${formatBytes(change.to)} | ${formatSignedBytes(change.bytes)} | ${formatPercent(change.percent)}`
+}
+
+/**
+ * Render the breakdown tables of a fixture
+ * @param diff - Fixture diff
+ * @param versions - From and to version for the headers
+ * @returns Markdown lines (empty if neither entry stores a breakdown)
+ */
+function formatBreakdown(diff: FixtureDiff, [from, to]: [string, string]): string[] {
+  const builds: ['Vapor' | 'Classic', BuildBreakdown][] = [
+    ['Vapor', diff.breakdown!.vapor],
+    ['Classic', diff.breakdown!.classic],
+  ]
+  const lines: string[] = []
+
+  const typeRows: string[] = builds.flatMap(([label, breakdown]) =>
+    (breakdown.byType ?? []).map((t: TypeDiff) => `| ${label} | ${t.type} | ${formatChangeCells(t.gzipped)} |`)
+  )
+  if (typeRows.length > 0) {
+    lines.push(
+      ``,
+      `### Size by Type (gzipped)`,
+      ``,
+      `| Build | Type | ${from} | ${to} | Change | Change % |`,
+      `|-------|------|------|------|--------|----------|`,
+      ...typeRows,
+    )
+  }
+
+  const hasFiles: boolean = builds.some(([, breakdown]) => breakdown.files !== undefined)
+  if (hasFiles) {
+    const fileRows: string[] = builds.flatMap(([label, breakdown]) =>
+      (breakdown.files ?? []).map((f: FileDiff) =>
+        `| ${label} | \`${f.file}\`${f.status === 'changed' ? '' : ` (${f.status})`} | ${formatChangeCells(f.gzipped)} |`
+      )
+    )
+    lines.push(
+      ``,
+      `### Changed Files (gzipped)`,
+      ``,
+      ...(fileRows.length > 0
+        ? [`| Build | File | ${from} | ${to} | Change | Change % |`, `|-------|------|------|------|--------|----------|`, ...fileRows]
+        : ['No file changed size.']),
+    )
+  }
+
+  return lines
+}
+
+/**
+ * Render a history diff as markdown
+ * @param diff - Diff from diffHistory()
+ * @returns Markdown document
+ */
+function formatMarkdown(diff: HistoryDiff): string {
+  const versions: [string, string] = [diff.from, diff.to]
+  const lines: string[] = [`# Benchmark Diff: ${diff.from} → ${diff.to}`]
+
+  for (const fixture of diff.fixtures) {
+    lines.push(``, `## ${fixture.fixture}`, ``)
+    if (fixture.missing) {
+      lines.push(`${fixture.missing}; nothing to compare.`)
+      continue
+    }
+
+    lines.push(
+      `| Build | Metric | ${diff.from} | ${diff.to} | Change | Change % |`,
+      `|-------|--------|------|------|--------|----------|`,
+    )
+    const rows: ['Vapor' | 'Classic' | 'Vapor - Classic', SizeDiff][] = [
+      ['Vapor', fixture.vapor!],
+      ['Classic', fixture.classic!],
+      ['Vapor - Classic', fixture.delta!],
+    ]
+    for (const [build, sizes] of rows) {
+      for (const [key, label] of SIZE_LABELS) {
+        const change: ValueChange | undefined = sizes[key]
+        if (change) lines.push(`| ${build} | ${label} | ${formatChangeCells(change)} |`)
+      }
+    }
+
+    const { from, to } = fixture.vaporVsClassicPercent!
+    lines.push(``, `**Vapor vs Classic (gzipped)**: ${formatPercent(from)} → ${formatPercent(to)}`)
+    if (fixture.classicMismatch) lines.push(``, `⚠️ ${fixture.classicMismatch}.`)
+    lines.push(...formatBreakdown(fixture, versions))
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main Execution
+// ─────────────────────────────────────────────────────────────────────────────
+
+function main(): void {
+  if (!DIFF_FORMATS.includes(format as DiffFormat)) {
+    throw new Error(`Unknown format ${format} (available: ${DIFF_FORMATS.join(', ')})`)
+  }
+
+  const diff: HistoryDiff = diffHistory(readHistory(historyFile).benchmarks, getPositionalArgs())
+  const output: string = format === 'json' ? `${JSON.stringify(diff, null, 2)}\n` : formatMarkdown(diff)
+
+  if (outFile) {
+    const file: string = path.resolve(root, outFile)
+    mkdirSync(path.dirname(file), { recursive: true })
+    writeFileSync(file, output)
+    console.log(`Diff of ${diff.from} → ${diff.to} saved to ${path.relative(root, file)}`)
+  } else {
+    process.stdout.write(output)
+  }
+}
+
+// Usage errors (unknown version, format or fixture) need no stack trace
+try {
+  main()
+} catch (err) {
+  console.error(err instanceof Error ? err.message : String(err))
+  process.exit(1)
+}
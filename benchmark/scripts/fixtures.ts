@@ -0,0 +1,105 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Fixture Registry
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// A fixture is a small Vapor app that gets built twice (Vapor and Classic).
+// The bundled example app is always registered as `example`; every directory
+// under `benchmark/fixtures/<name>/` containing an `index.html` and `main.ts`
+// is registered under its directory name. project.ts describes an app outside
+// this repository the same way (compare-builds.ts --project).
+
+import { existsSync, readdirSync } from 'node:fs'
+import path from 'node:path'
+
+export interface Fixture {
+  /** Registry key, stored as `fixture` in history entries */
+  name: string
+  /** Vite root (directory holding index.html) */
+  root: string
+  /** Directory holding the fixture sources, used as preserveModulesRoot */
+  srcDir: string
+  /** Entry module that calls createVaporApp, relative to project root */
+  entry: string
+  /** Vapor SFCs, relative to project root */
+  sfcs: string[]
+  /** Root component, rendered by the SSR entry; absent when it could not be found */
+  app?: string
+  /** Vite config both variants are built with */
+  configFile: string
+  /** Directory `vue-tsc -b` runs in */
+  projectRoot: string
+  /** Vite mode of minified builds; this repo's vite.config.ts only minifies in `ship` mode */
+  mode: string
+}
+
+/** Fixture name used for the bundled example app and for legacy history entries */
+export const DEFAULT_FIXTURE = 'example'
+
+/**
+ * Recursively collect all .vue files under a directory
+ * @param dir - Absolute directory path
+ * @returns Absolute paths of all SFCs, sorted
+ */
+function findSfcs(dir: string): string[] {
+  const files: string[] = []
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const fullPath: string = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...findSfcs(fullPath))
+    } else if (entry.isFile() && entry.name.endsWith('.vue')) {
+      files.push(fullPath)
+    }
+  }
+  return files.sort()
+}
+
+/**
+ * Build a fixture description from its source directory
+ * @param root - Project root
+ * @param name - Fixture name
+ * @param viteRoot - Directory holding index.html
+ * @param srcDir - Directory holding main.ts and the SFCs
+ */
+export function createFixture(root: string, name: string, viteRoot: string, srcDir: string): Fixture {
+  return {
+    name,
+    root: viteRoot,
+    srcDir,
+    entry: path.relative(root, path.join(srcDir, 'main.ts')),
+    sfcs: findSfcs(srcDir).map((file: string) => path.relative(root, file)),
+    app: path.join(srcDir, 'App.vue'),
+    configFile: path.join(root, 'vite.config.ts'),
+    projectRoot: root,
+    mode: 'ship',
+  }
+}
+
+/**
+ * Discover all registered fixtures
+ * @param root - Project root
+ * @returns The example fixture followed by benchmark/fixtures/* in name order
+ */
+export function loadFixtures(root: string): Fixture[] {
+  const fixtures: Fixture[] = [
+    createFixture(root, DEFAULT_FIXTURE, root, path.join(root, 'example/src')),
+  ]
+
+  const fixturesDir: string = path.join(root, 'benchmark/fixtures')
+  if (!existsSync(fixturesDir)) return fixtures
+
+  const names: string[] = readdirSync(fixturesDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort()
+
+  for (const name of names) {
+    const dir: string = path.join(fixturesDir, name)
+    if (!existsSync(path.join(dir, 'index.html')) || !existsSync(path.join(dir, 'main.ts'))) {
+      console.warn(`Skipping fixture "${name}": expected index.html and main.ts`)
+      continue
+    }
+    fixtures.push(createFixture(root, name, dir, dir))
+  }
+
+  return fixtures
+}
@@ -0,0 +1,147 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Benchmark History Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+import assert from 'node:assert/strict'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { HISTORY_SCHEMA_VERSION, HistoryError, readHistory, writeHistory } from './history'
+import type { BenchmarkEntry, BenchmarkHistory, MeasuredEntry } from './history'
+
+/**
+ * Minimal measured entry for a version and fixture
+ * @param vueVersion - Vue version
+ * @param fixture - Fixture name
+ * @returns Entry that passes validation
+ */
+function entry(vueVersion: string, fixture: string = 'example'): MeasuredEntry {
+  return {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    mode: 'benchmark',
+    fixture,
+    vueVersion,
+    status: 'ok',
+    vapor: { raw: 100, gzipped: 50 },
+    classic: { raw: 200, gzipped: 80 },
+    delta: { raw: -100, gzipped: -30 },
+  }
+}
+
+/**
+ * Version and fixture of every entry in a history file, in file order
+ * @param file - Path of the history file
+ */
+function keys(file: string): string[] {
+  return readHistory(file).benchmarks.map((b: BenchmarkEntry) => `${b.vueVersion} ${b.fixture}`)
+}
+
+let dir: string
+let file: string
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), 'vapor-history-'))
+  file = path.join(dir, 'build-history.json')
+})
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+describe('readHistory', () => {
+  test('returns an empty history of the current schema for a missing file', () => {
+    assert.deepEqual(readHistory(file), { schemaVersion: HISTORY_SCHEMA_VERSION, benchmarks: [] })
+  })
+
+  test('migrates an unversioned file without fixture or status', () => {
+    const { fixture, status, ...measured } = entry('3.6.0-alpha.1')
+    writeFileSync(file, JSON.stringify({
+      benchmarks: [measured, { ...measured, mode: 'inspect', vueVersion: '3.6.0-alpha.2' }],
+    }))
+
+    const history: BenchmarkHistory = readHistory(file)
+    assert.equal(history.schemaVersion, HISTORY_SCHEMA_VERSION)
+    assert.deepEqual(history.benchmarks, [
+      { ...measured, fixture: 'example', status: 'ok', legacyClassic: true },
+      { ...measured, mode: 'inspect', vueVersion: '3.6.0-alpha.2', fixture: 'example', status: 'ok' },
+    ])
+  })
+
+  test('rejects a schema newer than the scripts', () => {
+    writeFileSync(file, JSON.stringify({ schemaVersion: HISTORY_SCHEMA_VERSION + 1, benchmarks: [] }))
+    assert.throws(() => readHistory(file), HistoryError)
+  })
+})
+
+describe('writeHistory', () => {
+  test('keeps entries sorted by version after an out-of-order insert', () => {
+    writeHistory(file, [entry('3.6.0-beta.9'), entry('3.6.0-beta.10')])
+    writeHistory(file, [entry('3.6.0-alpha.2')])
+    writeHistory(file, [entry('3.6.0-beta.10-fix')])
+
+    assert.deepEqual(keys(file), [
+      '3.6.0-alpha.2 example',
+      '3.6.0-beta.9 example',
+      '3.6.0-beta.10 example',
+      '3.6.0-beta.10-fix example',
+    ])
+  })
+
+  test('orders fixtures within a version with the default fixture first', () => {
+    writeHistory(file, [entry('3.6.0-beta.5', 'list'), entry('3.6.0-beta.5', 'forms')])
+    writeHistory(file, [entry('3.6.0-beta.4', 'list'), entry('3.6.0-beta.5')])
+
+    assert.deepEqual(keys(file), [
+      '3.6.0-beta.4 list',
+      '3.6.0-beta.5 example',
+      '3.6.0-beta.5 forms',
+      '3.6.0-beta.5 list',
+    ])
+  })
+
+  test('replaces the entry for the same version and fixture in place', () => {
+    writeHistory(file, [entry('3.6.0-beta.4'), entry('3.6.0-beta.5')])
+    writeHistory(file, [{ ...entry('3.6.0-beta.4'), timestamp: '2026-02-01T00:00:00.000Z' }])
+
+    const history: BenchmarkHistory = readHistory(file)
+    assert.deepEqual(keys(file), ['3.6.0-beta.4 example', '3.6.0-beta.5 example'])
+    assert.equal(history.benchmarks[0].timestamp, '2026-02-01T00:00:00.000Z')
+  })
+
+  test('stores a migrated file as the current schema', () => {
+    const { fixture, status, ...measured } = entry('3.6.0-alpha.1')
+    writeFileSync(file, JSON.stringify({ benchmarks: [measured] }))
+    writeHistory(file, [entry('3.6.0-alpha.2')])
+
+    const written: { schemaVersion: number; benchmarks: MeasuredEntry[] } = JSON.parse(readFileSync(file, 'utf8'))
+    assert.equal(written.schemaVersion, HISTORY_SCHEMA_VERSION)
+    assert.equal(written.benchmarks[0].legacyClassic, true)
+    assert.equal(written.benchmarks[1].legacyClassic, undefined)
+  })
+
+  test('leaves a file with malformed JSON unchanged', () => {
+    const corrupt: string = '{ "schemaVersion": 2, "benchmarks": ['
+    writeFileSync(file, corrupt)
+
+    assert.throws(() => writeHistory(file, [entry('3.6.0')]), HistoryError)
+    assert.equal(readFileSync(file, 'utf8'), corrupt)
+  })
+
+  test('leaves a file with an invalid entry unchanged', () => {
+    const invalid: string = JSON.stringify({ schemaVersion: HISTORY_SCHEMA_VERSION, benchmarks: [{ vueVersion: '3.6.0-beta.1' }] })
+    writeFileSync(file, invalid)
+
+    assert.throws(() => writeHistory(file, [entry('3.6.0')]), HistoryError)
+    assert.equal(readFileSync(file, 'utf8'), invalid)
+  })
+
+  test('rejects invalid new entries without writing', () => {
+    writeHistory(file, [entry('3.6.0-beta.1')])
+    const before: string = readFileSync(file, 'utf8')
+    const { classic, ...incomplete } = entry('3.6.0')
+
+    assert.throws(() => writeHistory(file, [incomplete as BenchmarkEntry]), HistoryError)
+    assert.equal(readFileSync(file, 'utf8'), before)
+  })
+})
@@ -0,0 +1,411 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Benchmark History
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Owns the format of benchmark/results/build-history.json. Files are
+// validated when read and migrated to the current schema in memory; a file
+// that cannot be parsed or validated raises HistoryError instead of being
+// treated as empty, so a write can never replace existing data with one entry.
+//
+// Schema versions:
+//   1 - no `schemaVersion` field; `fixture` and `status` may be missing
+//   2 - every entry has `fixture` and `status`
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+import type { BuildTimings } from './build-timing'
+import { DEFAULT_FIXTURE } from './fixtures'
+import type { InteropMetrics } from './interop'
+import type { MemoryMetrics } from './memory-benchmark'
+import type { PackageSizes } from './module-attribution'
+import type { RuntimeMetrics } from './runtime-benchmark'
+import type { SsrMetrics } from './ssr-benchmark'
+import type { CompiledModule } from './vapor-output'
+import { compareVersions } from './version'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Type Definitions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Sizes of one build in bytes
+ * `brotli` and `zstd` are absent in entries recorded before they were measured,
+ * `zstd` is also absent when the Node.js runtime lacks zstd support
+ */
+export interface SizeMetrics {
+  raw: number
+  gzipped: number
+  brotli?: number
+  zstd?: number
+}
+
+export type AssetType = 'js' | 'css' | 'html' | 'other'
+
+export interface TypeSizes {
+  raw: number
+  gzipped: number
+}
+
+/** Size of a single output file, path relative to the build output directory */
+export interface FileMetrics extends TypeSizes {
+  file: string
+  type: AssetType
+}
+
+/** Spread of one variant's sizes over repeated builds of the same sources */
+export interface RepeatMetrics {
+  runs: number
+  min: TypeSizes
+  max: TypeSizes
+  /** Whether every run produced the same output hash */
+  identical: boolean
+}
+
+/**
+ * Sizes of one build including the per-type split, per-file and per-package breakdown
+ * `byType`, `files`, `packages` and `hash` are absent in entries recorded before they were measured
+ */
+export interface BuildMetrics extends SizeMetrics {
+  byType?: Record<AssetType, TypeSizes>
+  files?: FileMetrics[]
+  /** JS bytes attributed to each npm package (see module-attribution.ts) */
+  packages?: PackageSizes
+  /** SHA-256 over the paths and contents of all output files */
+  hash?: string
+  /** Present when the benchmark ran with --runs greater than 1 */
+  repeat?: RepeatMetrics
+}
+
+export interface DeltaMetrics extends SizeMetrics {
+  byType?: Record<AssetType, TypeSizes>
+}
+
+/**
+ * Outcome of benchmarking one fixture
+ * `typecheck-failed` means neither variant was built, since both check the same sources
+ */
+export type EntryStatus = 'ok' | 'typecheck-failed' | 'vapor-failed' | 'classic-failed'
+
+interface EntryBase {
+  timestamp: string
+  /**
+   * `probe` entries hold one tree-shaking probe each (see probes.ts),
+   * `profile` entries one fixture built with one build profile (see profiles.ts)
+   */
+  mode: 'benchmark' | 'inspect' | 'probe' | 'profile'
+  fixture: string
+  /** Build profile name from profiles.json; set on `profile` entries only */
+  profile?: string
+  vueVersion: string
+}
+
+/** Entry of a fixture whose Vapor and Classic builds both succeeded */
+export interface MeasuredEntry extends EntryBase {
+  status: 'ok'
+  vapor: BuildMetrics
+  classic: BuildMetrics
+  delta: DeltaMetrics
+  /** Wall-clock build step timings; absent in entries recorded before they were measured */
+  buildTime?: {
+    /** `vue-tsc -b`, run once per fixture since both variants check the same sources */
+    typeCheck?: number
+    vapor: BuildTimings
+    classic: BuildTimings
+  }
+  /** Present when the benchmark ran with --runtime */
+  runtime?: {
+    vapor: RuntimeMetrics
+    classic: RuntimeMetrics
+  }
+  /** Present when the benchmark ran with --memory */
+  memory?: {
+    vapor: MemoryMetrics
+    classic: MemoryMetrics
+  }
+  /** Mixed-mode builds, one per scenario; present when the benchmark ran with --interop */
+  interop?: InteropMetrics[]
+  /** Present when the benchmark ran with --ssr */
+  ssr?: {
+    vapor: SsrMetrics
+    classic: SsrMetrics
+  }
+  /** How the Vapor build compiled each SFC; absent in entries recorded before it was analyzed */
+  vaporOutput?: CompiledModule[]
+  /**
+   * Set on `example` entries whose Classic build kept ViteLogo.vue and VueLogo.vue
+   * as Vapor (schema 1); their Classic sizes and delta are not
+   * comparable with entries that strip every SFC
+   */
+  legacyClassic?: true
+}
+
+/** Entry of a fixture whose type-check or build failed for one variant */
+export interface FailedEntry extends EntryBase {
+  status: Exclude<EntryStatus, 'ok'>
+  /** Trimmed tail of the failing vue-tsc or vite build output */
+  error: string
+  /** Vapor sizes, present when only the Classic build failed */
+  vapor?: BuildMetrics
+}
+
+export type BenchmarkEntry = MeasuredEntry | FailedEntry
+
+export interface BenchmarkHistory {
+  schemaVersion: number
+  benchmarks: BenchmarkEntry[]
+}
+
+/** Raised when a history file cannot be read, validated or migrated */
+export class HistoryError extends Error {
+  constructor(file: string, problems: string[]) {
+    super(`${file} is not a valid benchmark history:\n${problems.map((p: string) => `  - ${p}`).join('\n')}`)
+    this.name = 'HistoryError'
+  }
+}
+
+/** Shape of a parsed file before validation and migration */
+type RawHistory = { schemaVersion?: unknown; benchmarks?: unknown }
+type RawEntry = Record<string, unknown>
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration & Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Schema version written by this module */
+export const HISTORY_SCHEMA_VERSION = 2
+
+/** Migration from schema version `n` to `n + 1`, indexed by `n` */
+const MIGRATIONS: Record<number, (entries: RawEntry[]) => RawEntry[]> = {
+  // Entries recorded before fixtures belong to the example app,
+  // entries recorded before statuses built successfully.
+  // Their Classic build of `example` stripped only App.vue and HelloWorld.vue,
+  // so measured `example` benchmark entries are marked `legacyClassic`.
+  1: (entries: RawEntry[]) => entries.map((entry: RawEntry) => {
+    const migrated: RawEntry = {
+      ...entry,
+      fixture: entry.fixture ?? DEFAULT_FIXTURE,
+      status: entry.status ?? 'ok',
+    }
+    return migrated.fixture === DEFAULT_FIXTURE && migrated.mode === 'benchmark' && migrated.status === 'ok'
+      ? { ...migrated, legacyClassic: true }
+      : migrated
+  }),
+}
+
+const STATUSES: EntryStatus[] = ['ok', 'typecheck-failed', 'vapor-failed', 'classic-failed']
+
+/** What failed, for reports and the dashboard */
+export const FAILURE_LABELS: Record<FailedEntry['status'], string> = {
+  'typecheck-failed': 'Type-check failed',
+  'vapor-failed': 'Vapor build failed',
+  'classic-failed': 'Classic build failed',
+}
+const MODES: BenchmarkEntry['mode'][] = ['benchmark', 'inspect', 'probe', 'profile']
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Ordering
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Order fixtures within a version: default fixture first, then by name
+ */
+function compareFixtures(a: string, b: string): number {
+  if (a === b) return 0
+  if (a === DEFAULT_FIXTURE) return -1
+  if (b === DEFAULT_FIXTURE) return 1
+  return a.localeCompare(b)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Validation
+// ─────────────────────────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Check that a value holds the numeric size fields every build has
+ * @param value - Value to check
+ * @param label - Location used in problem messages
+ * @returns Problems found
+ */
+function validateSizes(value: unknown, label: string): string[] {
+  if (!isRecord(value)) return [`${label} must be an object`]
+  return (['raw', 'gzipped'] as const)
+    .filter((key) => typeof value[key] !== 'number')
+    .map((key) => `${label}.${key} must be a number`)
+}
+
+/**
+ * Check one migrated entry
+ * @param entry - Entry to check
+ * @param label - Location used in problem messages
+ * @returns Problems found
+ */
+function validateEntry(entry: unknown, label: string): string[] {
+  if (!isRecord(entry)) return [`${label} must be an object`]
+
+  const problems: string[] = []
+  for (const key of ['timestamp', 'fixture', 'vueVersion']) {
+    if (typeof entry[key] !== 'string') problems.push(`${label}.${key} must be a string`)
+  }
+  if (!MODES.includes(entry.mode as BenchmarkEntry['mode'])) {
+    problems.push(`${label}.mode must be one of ${MODES.join(', ')}`)
+  }
+  if ((entry.mode === 'profile') !== (typeof entry.profile === 'string')) {
+    problems.push(`${label}.profile must be a string on profile entries and absent otherwise`)
+  }
+  if (!STATUSES.includes(entry.status as EntryStatus)) {
+    problems.push(`${label}.status must be one of ${STATUSES.join(', ')}`)
+    return problems
+  }
+
+  if (entry.status === 'ok') {
+    problems.push(
+      ...validateSizes(entry.vapor, `${label}.vapor`),
+      ...validateSizes(entry.classic, `${label}.classic`),
+      ...validateSizes(entry.delta, `${label}.delta`),
+    )
+    if (entry.legacyClassic !== undefined && entry.legacyClassic !== true) {
+      problems.push(`${label}.legacyClassic must be true when present`)
+    }
+  } else {
+    if (typeof entry.error !== 'string') problems.push(`${label}.error must be a string`)
+    if (entry.vapor !== undefined) problems.push(...validateSizes(entry.vapor, `${label}.vapor`))
+  }
+  return problems
+}
+
+/**
+ * Validate and migrate parsed history data to the current schema
+ * @param data - Parsed JSON
+ * @param file - File name used in error messages
+ * @returns History in the current schema
+ * @throws HistoryError when the data is not a history or is newer than this module
+ */
+export function migrateHistory(data: unknown, file: string): BenchmarkHistory {
+  if (!isRecord(data)) {
+    throw new HistoryError(file, ['top level must be an object'])
+  }
+
+  const raw: RawHistory = data
+  const schemaVersion: unknown = raw.schemaVersion ?? 1
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 1) {
+    throw new HistoryError(file, ['schemaVersion must be a positive integer'])
+  }
+  if (schemaVersion > HISTORY_SCHEMA_VERSION) {
+    throw new HistoryError(file, [
+      `schemaVersion ${schemaVersion} is newer than supported (${HISTORY_SCHEMA_VERSION}); update the benchmark scripts`,
+    ])
+  }
+  if (!Array.isArray(raw.benchmarks)) {
+    throw new HistoryError(file, ['benchmarks must be an array'])
+  }
+
+  let entries: RawEntry[] = raw.benchmarks as RawEntry[]
+  const malformed: string[] = entries.flatMap((entry: unknown, i: number) =>
+    isRecord(entry) ? [] : [`benchmarks[${i}] must be an object`]
+  )
+  if (malformed.length > 0) throw new HistoryError(file, malformed)
+
+  for (let version = schemaVersion; version < HISTORY_SCHEMA_VERSION; version++) {
+    entries = MIGRATIONS[version](entries)
+  }
+
+  const problems: string[] = entries.flatMap((entry: RawEntry, i: number) =>
+    validateEntry(entry, `benchmarks[${i}]`)
+  )
+  if (problems.length > 0) throw new HistoryError(file, problems)
+
+  return { schemaVersion: HISTORY_SCHEMA_VERSION, benchmarks: entries as unknown as BenchmarkEntry[] }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Whether an entry has Vapor and Classic sizes
+ * @param entry - History or current entry
+ * @returns True for entries with status `ok`
+ */
+export function isMeasured(entry: BenchmarkEntry): entry is MeasuredEntry {
+  return entry.status === 'ok'
+}
+
+/**
+ * Find a fixture's last measured benchmark entry before a version
+ * @param benchmarks - History entries, sorted by version
+ * @param fixture - Fixture name
+ * @param version - Version the entry must precede
+ * @param profile - Build profile; without one, only `benchmark` entries match
+ * @returns Latest earlier measured entry, if any
+ */
+export function findPreviousEntry(
+  benchmarks: BenchmarkEntry[],
+  fixture: string,
+  version: string,
+  profile?: string
+): MeasuredEntry | undefined {
+  return benchmarks
+    .filter(isMeasured)
+    .filter((b: MeasuredEntry) => (profile === undefined ? b.mode === 'benchmark' : b.mode === 'profile' && b.profile === profile))
+    .filter((b: MeasuredEntry) => b.fixture === fixture && compareVersions(b.vueVersion, version) < 0)
+    .slice(-1)[0]
+}
+
+/**
+ * Read, validate and migrate a history file
+ * @param file - Path of the history file
+ * @returns History in the current schema; empty if the file does not exist
+ * @throws HistoryError when the file exists but is corrupt
+ */
+export function readHistory(file: string): BenchmarkHistory {
+  if (!existsSync(file)) {
+    return { schemaVersion: HISTORY_SCHEMA_VERSION, benchmarks: [] }
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(readFileSync(file, 'utf8'))
+  } catch (err) {
+    throw new HistoryError(file, [`invalid JSON: ${err instanceof Error ? err.message : String(err)}`])
+  }
+  return migrateHistory(data, file)
+}
+
+/**
+ * Add entries to a history file, replacing entries for the same version, fixture and profile
+ * Refuses to write when the existing file is corrupt, and writes atomically
+ * @param file - Path of the history file
+ * @param entries - Entries to add
+ * @throws HistoryError when the existing file or the new entries are invalid
+ */
+export function writeHistory(file: string, entries: BenchmarkEntry[]): void {
+  const history: BenchmarkHistory = readHistory(file)
+
+  const problems: string[] = entries.flatMap((entry: BenchmarkEntry, i: number) =>
+    validateEntry(entry, `new entry ${i}`)
+  )
+  if (problems.length > 0) throw new HistoryError(file, problems)
+
+  // Remove all existing entries with the same vueVersion, fixture and profile
+  history.benchmarks = history.benchmarks.filter(
+    (b: BenchmarkEntry) => !entries.some(
+      (entry: BenchmarkEntry) => entry.vueVersion === b.vueVersion && entry.fixture === b.fixture && entry.profile === b.profile
+    )
+  )
+
+  // Add the new entries
+  history.benchmarks.push(...entries)
+
+  // Sort by semantic version, then fixture
+  history.benchmarks.sort((a: BenchmarkEntry, b: BenchmarkEntry) =>
+    compareVersions(a.vueVersion, b.vueVersion) || compareFixtures(a.fixture, b.fixture)
+  )
+
+  mkdirSync(path.dirname(file), { recursive: true })
+  writeFileSync(`${file}.tmp`, JSON.stringify(history, null, 2))
+  renameSync(`${file}.tmp`, file)
+}
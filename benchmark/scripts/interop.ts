@@ -0,0 +1,135 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Mixed-Mode Interop
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Scenarios for apps that run both runtimes, as during a gradual migration:
+// selected SFCs keep `<script setup vapor>`, the rest compile to VDOM, and
+// the app is created with `createApp` (Vapor components inside a VDOM app) or
+// `createVaporApp` (VDOM components inside a Vapor app), in both cases with
+// `vaporInteropPlugin` installed. Scenarios come from benchmark/interop.json.
+
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import picomatch from 'picomatch'
+import type { BuildMetrics } from './history'
+import type { Fixture } from './fixtures'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Type Definitions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Runtime the app instance is created with */
+export type InteropApp = 'vapor' | 'vdom'
+
+export interface InteropScenario {
+  /** Scenario key, unique per fixture */
+  name: string
+  /** `vdom` mounts with createApp, `vapor` with createVaporApp */
+  app: InteropApp
+  /** Globs of SFCs that stay Vapor, relative to the fixture's source directory */
+  vapor: string[]
+}
+
+export interface InteropConfig {
+  default: InteropScenario[]
+  /** Per-fixture scenario lists, replacing the default list */
+  fixtures?: Record<string, InteropScenario[]>
+}
+
+/** Result of one interop scenario for one fixture */
+export interface InteropMetrics {
+  scenario: string
+  app: InteropApp
+  /** SFCs compiled as Vapor, relative to the project root */
+  vaporSfcs: string[]
+  /** SFCs compiled as VDOM, relative to the project root */
+  vdomSfcs: string[]
+  /** Build sizes; absent when the build failed */
+  build?: BuildMetrics
+  /** Excerpt of the build error, when the build failed */
+  error?: string
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration & Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const INTEROP_APPS: InteropApp[] = ['vapor', 'vdom']
+
+/** Helper the entry's app factory calls are redirected to */
+const INTEROP_FACTORY = '__createInteropApp'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read and check the scenario file
+ * Like the budget file, a missing or malformed scenario file is an error
+ * @param file - Path of interop.json
+ * @returns Parsed configuration
+ */
+export function readInteropConfig(file: string): InteropConfig {
+  const config = JSON.parse(readFileSync(file, 'utf8')) as InteropConfig
+  const lists: [string, InteropScenario[]][] = [
+    ['default', config.default],
+    ...Object.entries(config.fixtures ?? {}).map(([name, list]): [string, InteropScenario[]] => [`fixtures.${name}`, list]),
+  ]
+
+  for (const [label, list] of lists) {
+    if (!Array.isArray(list)) {
+      throw new Error(`${file}: "${label}" must be a list of scenarios`)
+    }
+    for (const scenario of list) {
+      if (typeof scenario.name !== 'string' || !INTEROP_APPS.includes(scenario.app) || !Array.isArray(scenario.vapor)) {
+        throw new Error(`${file}: every scenario in "${label}" needs a name, app (${INTEROP_APPS.join(' or ')}) and vapor globs`)
+      }
+    }
+  }
+  return config
+}
+
+/**
+ * Scenarios that apply to a fixture
+ * @param config - Scenario configuration
+ * @param fixture - Fixture name
+ * @returns The fixture's own list, or the default list
+ */
+export function getScenarios(config: InteropConfig, fixture: string): InteropScenario[] {
+  return config.fixtures?.[fixture] ?? config.default
+}
+
+/**
+ * Resolve which of a fixture's SFCs stay Vapor in a scenario
+ * @param root - Project root
+ * @param fixture - Fixture being built
+ * @param scenario - Scenario with globs relative to the fixture's source directory
+ * @returns Matching SFCs, relative to the project root
+ */
+export function selectVaporSfcs(root: string, fixture: Fixture, scenario: InteropScenario): string[] {
+  const isVapor: (file: string) => boolean = picomatch(scenario.vapor)
+  return fixture.sfcs.filter((file: string) =>
+    isVapor(path.relative(fixture.srcDir, path.join(root, file)).split(path.sep).join('/'))
+  )
+}
+
+/**
+ * Create the app through vaporInteropPlugin in an entry module
+ * Redirects every `createVaporApp(` call to a hoisted helper that creates the
+ * app with the scenario's runtime and installs the plugin; type positions
+ * such as `typeof createVaporApp` are left alone. The helper keeps the
+ * signature of createVaporApp, which the entry's calls were written for.
+ * @param source - Entry module source code
+ * @param app - Runtime to create the app with
+ * @returns Transformed source
+ */
+export function toInteropEntry(source: string, app: InteropApp): string {
+  const factory: string = app === 'vdom' ? 'createApp' : 'createVaporApp'
+  return `${source.replace(/\bcreateVaporApp\(/g, `${INTEROP_FACTORY}(`)}
+import { ${factory} as __interopFactory, vaporInteropPlugin as __vaporInteropPlugin } from 'vue'
+import type { createVaporApp as __interopVaporApp } from 'vue'
+function ${INTEROP_FACTORY}(...args: Parameters<typeof __interopVaporApp>) {
+  return __interopFactory(...(args as unknown as Parameters<typeof __interopFactory>)).use(__vaporInteropPlugin)
+}
+`
+}
@@ -0,0 +1,71 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Memory Benchmark
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Measures the heap retained per mounted app instance. The fixture is built
+// once more with mountHookPlugin(), which exposes a function that mounts a new
+// instance of the root component, and memory-probe.ts mounts it many times in
+// a separate `node --expose-gc` process.
+
+import { execFileSync } from 'node:child_process'
+import { fileURLToPath } from 'node:url'
+import path from 'node:path'
+import { normalizePath, type Plugin } from 'vite'
+
+/** Global the instrumented entry assigns its mount function to */
+export const MOUNT_HOOK = '__benchmarkMount'
+
+/** Retained heap of one build, in bytes */
+export interface MemoryMetrics {
+  /** Number of app instances mounted */
+  instances: number
+  /** Heap growth after GC divided by `instances` */
+  heapPerInstance: number
+  /** Heap growth after GC for all instances */
+  heapTotal: number
+}
+
+const __dirname: string = fileURLToPath(new URL('.', import.meta.url))
+const probeScript: string = path.join(__dirname, 'memory-probe.ts')
+
+/**
+ * Vite plugin that exposes a mount function from the fixture's entry
+ * Looks for the `createVaporApp(...).mount(` / `createApp(...).mount(` call and
+ * appends `globalThis.__benchmarkMount = (el) => createApp(...).mount(el)`.
+ * The hook adds bytes, so instrumented builds are never used for size metrics.
+ * @param entry - Absolute path of the fixture's entry module
+ * @returns Pre-enforced transform plugin; add it after classicRuntimePlugin()
+ */
+export function mountHookPlugin(entry: string): Plugin {
+  const entryId: string = normalizePath(entry)
+
+  return {
+    name: 'vapor-benchmark:mount-hook',
+    enforce: 'pre',
+    transform(code: string, id: string) {
+      if (id !== entryId) return null
+
+      const match: RegExpMatchArray | null = code.match(/\b(createVaporApp|createApp)\(([^()]*)\)\s*\.mount\(/)
+      if (!match) {
+        this.error(`Cannot find a createVaporApp(...).mount() or createApp(...).mount() call in ${entry}`)
+      }
+      return `${code}\nglobalThis.${MOUNT_HOOK} = (el) => ${match[1]}(${match[2]}).mount(el)\n`
+    },
+  }
+}
+
+/**
+ * Measure retained heap per mounted instance of an instrumented build
+ * @param outputDir - Output directory of a build made with mountHookPlugin()
+ * @param instances - Number of additional app instances to mount
+ * @returns Heap growth per instance and in total
+ */
+export function measureMemory(outputDir: string, instances: number): MemoryMetrics {
+  const output: string = execFileSync(
+    process.execPath,
+    ['--expose-gc', '--import', 'tsx', probeScript, outputDir, String(instances)],
+    { encoding: 'utf8', stdio: ['ignore', 'pipe', 'inherit'] }
+  )
+  const lastLine: string = output.trim().split('\n').pop() ?? ''
+  return JSON.parse(lastLine) as MemoryMetrics
+}
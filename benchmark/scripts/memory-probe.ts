@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+
+/**
+ * Child process for memory-benchmark.ts, run with `node --expose-gc`.
+ * Loads an instrumented build into happy-dom, mounts `instances` additional
+ * app instances and prints the retained heap as JSON on the last stdout line.
+ *
+ * Usage: node --expose-gc --import tsx memory-probe.ts <outputDir> <instances>
+ */
+
+import { Window } from 'happy-dom'
+import { MOUNT_HOOK, type MemoryMetrics } from './memory-benchmark'
+import { loadBuild } from './runtime-benchmark'
+
+const [outputDir, instancesArg] = process.argv.slice(2)
+const instances: number = Number(instancesArg)
+
+if (!outputDir || !Number.isInteger(instances) || instances <= 0) {
+  console.error('Usage: memory-probe.ts <outputDir> <instances>')
+  process.exit(1)
+}
+
+if (typeof globalThis.gc !== 'function') {
+  console.error('memory-probe.ts must run with node --expose-gc')
+  process.exit(1)
+}
+
+const gc: () => void = globalThis.gc
+
+/**
+ * Run full GCs until the heap settles and return the used heap
+ * Also lets pending scheduler jobs and macrotasks run first
+ */
+async function settledHeap(): Promise<number> {
+  await new Promise((resolve) => setTimeout(resolve, 0))
+  gc()
+  gc()
+  return process.memoryUsage().heapUsed
+}
+
+const { code, body } = loadBuild(outputDir)
+const window = new Window({ url: 'http://localhost/' })
+window.document.body.innerHTML = body
+
+// The bundle mounts its first instance into #app; that one warms up the
+// runtime (template caches, lazily created globals) and is not counted.
+window.eval(code)
+
+const mount = (window as unknown as Record<string, ((el: unknown) => unknown) | undefined>)[MOUNT_HOOK]
+if (typeof mount !== 'function') {
+  console.error(`Build in ${outputDir} does not expose ${MOUNT_HOOK}; build it with mountHookPlugin()`)
+  process.exit(1)
+}
+
+const before: number = await settledHeap()
+
+for (let i = 0; i < instances; i++) {
+  const container = window.document.createElement('div')
+  window.document.body.appendChild(container)
+  mount(container)
+}
+
+const after: number = await settledHeap()
+
+const result: MemoryMetrics = {
+  instances,
+  heapPerInstance: Math.round((after - before) / instances),
+  heapTotal: after - before,
+}
+
+await window.happyDOM.close()
+console.log(JSON.stringify(result))
@@ -0,0 +1,80 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Module Attribution
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Attributes the bytes of every emitted JS chunk to the source modules it was
+// rendered from, then aggregates them per npm package. The bundler reports
+// each module's rendered length before minification, so the final (minified)
+// chunk size is distributed proportionally over its modules.
+
+import type { Plugin } from 'vite'
+
+/** Package key for modules that belong to the benchmarked app itself */
+export const APP_PACKAGE = '(app)'
+
+/** Package key for virtual modules injected by plugins (helpers, polyfills) */
+export const VIRTUAL_PACKAGE = '(virtual)'
+
+/** Bytes per package, keyed by npm package name, APP_PACKAGE or VIRTUAL_PACKAGE */
+export type PackageSizes = Record<string, number>
+
+/**
+ * Resolve the npm package a module id belongs to
+ * @param id - Module id as reported by the bundler
+ * @param linkedPackages - Package directory → name, for packages outside node_modules
+ * @returns Package name (e.g. `@vue/runtime-vapor`), APP_PACKAGE or VIRTUAL_PACKAGE
+ */
+export function packageNameFromId(id: string, linkedPackages: Record<string, string> = {}): string {
+  if (id.startsWith('\0')) return VIRTUAL_PACKAGE
+
+  const normalized: string = id.replace(/\\/g, '/')
+  for (const [dir, name] of Object.entries(linkedPackages)) {
+    if (normalized.startsWith(`${dir.replace(/\\/g, '/')}/`)) return name
+  }
+
+  const marker: string = '/node_modules/'
+  const index: number = normalized.lastIndexOf(marker)
+  if (index === -1) return APP_PACKAGE
+
+  const segments: string[] = normalized.slice(index + marker.length).split('/')
+  return segments[0].startsWith('@') ? `${segments[0]}/${segments[1]}` : segments[0]
+}
+
+/**
+ * Vite plugin that measures the bytes each package contributes to the JS output
+ * @param onResult - Receives the per-package byte totals once the bundle is generated
+ * @param linkedPackages - Package directory → name, for packages outside node_modules
+ * @returns Plugin to add to the build
+ */
+export function moduleAttributionPlugin(
+  onResult: (sizes: PackageSizes) => void,
+  linkedPackages: Record<string, string> = {}
+): Plugin {
+  return {
+    name: 'vapor-benchmark:module-attribution',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const sizes: PackageSizes = {}
+
+      for (const output of Object.values(bundle)) {
+        if (output.type !== 'chunk') continue
+
+        const modules = Object.entries(output.modules)
+        const renderedTotal: number = modules.reduce((total: number, [, m]) => total + m.renderedLength, 0)
+        if (renderedTotal === 0) continue
+
+        const scale: number = Buffer.byteLength(output.code) / renderedTotal
+        for (const [id, m] of modules) {
+          const name: string = packageNameFromId(id, linkedPackages)
+          sizes[name] = (sizes[name] ?? 0) + m.renderedLength * scale
+        }
+      }
+
+      onResult(Object.fromEntries(
+        Object.entries(sizes)
+          .map(([name, bytes]): [string, number] => [name, Math.round(bytes)])
+          .sort(([, a], [, b]) => b - a)
+      ))
+    },
+  }
+}
@@ -0,0 +1,175 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Tree-Shaking Probes
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Minimal generated apps that each use a single Vue API on top of the same
+// `createVaporApp` baseline as the fixtures' main.ts. Building every probe as
+// Vapor and Classic and subtracting the baseline gives the marginal bytes one
+// feature pulls into each runtime. Probes are written to a scratch directory
+// before building; only their sizes are kept.
+
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+import { createFixture, type Fixture } from './fixtures'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Type Definitions
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface Probe {
+  /** Feature name, stored as `probe:<name>` in history */
+  name: string
+  /** What the probe adds over the baseline */
+  description: string
+  /** SFC sources relative to the probe directory; `App.vue` is the root component */
+  files: Record<string, string>
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration & Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Name of the probe every feature is measured against */
+export const BASELINE_PROBE = 'baseline'
+
+/** Prefix of the `fixture` field of probe entries in history */
+export const PROBE_FIXTURE_PREFIX = 'probe:'
+
+/** Same entry as the fixtures' main.ts */
+const MAIN_TS = `import { createVaporApp } from 'vue'
+import App from './App.vue'
+
+type VaporRoot = Parameters<typeof createVaporApp>[0]
+
+const RootComponent = App as unknown as VaporRoot
+
+createVaporApp(RootComponent).mount('#app')
+`
+
+const INDEX_HTML = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>Probe</title>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="./main.ts"></script>
+  </body>
+</html>
+`
+
+/**
+ * Root component with a script block and template
+ */
+function app(script: string, template: string): Record<string, string> {
+  return {
+    'App.vue': `<script setup vapor lang="ts">\n${script}\n</script>\n\n<template>\n${template}\n</template>\n`,
+  }
+}
+
+/** Baseline first; the order of the rest is the order of the report */
+export const PROBES: Probe[] = [
+  {
+    name: BASELINE_PROBE,
+    description: 'Static template, no reactivity',
+    files: app('', '  <div>probe</div>'),
+  },
+  {
+    name: 'ref',
+    description: '`ref` rendered in an interpolation',
+    files: app(`import { ref } from 'vue'\nconst count = ref(0)`, '  <div>{{ count }}</div>'),
+  },
+  {
+    name: 'computed',
+    description: '`computed` over a `ref`',
+    files: app(
+      `import { computed, ref } from 'vue'\nconst count = ref(0)\nconst double = computed(() => count.value * 2)`,
+      '  <div>{{ double }}</div>'
+    ),
+  },
+  {
+    name: 'watch',
+    description: '`watch` on a `ref`',
+    files: app(
+      `import { ref, watch } from 'vue'\nconst count = ref(0)\nwatch(count, (value) => console.log(value))`,
+      '  <div>{{ count }}</div>'
+    ),
+  },
+  {
+    name: 'v-if',
+    description: '`v-if` / `v-else` on a `ref`',
+    files: app(
+      `import { ref } from 'vue'\nconst show = ref(true)`,
+      '  <div v-if="show">shown</div>\n  <p v-else>hidden</p>'
+    ),
+  },
+  {
+    name: 'v-for',
+    description: 'Keyed `v-for` over a `ref` array',
+    files: app(
+      `import { ref } from 'vue'\nconst items = ref([1, 2, 3])`,
+      '  <ul>\n    <li v-for="item in items" :key="item">{{ item }}</li>\n  </ul>'
+    ),
+  },
+  {
+    name: 'v-model',
+    description: '`v-model` on a text input',
+    files: app(`import { ref } from 'vue'\nconst text = ref('')`, '  <input v-model="text" />'),
+  },
+  {
+    name: 'Teleport',
+    description: '`<Teleport>` to `body`',
+    files: app('', '  <Teleport to="body">\n    <div>probe</div>\n  </Teleport>'),
+  },
+  {
+    name: 'Suspense',
+    description: '`<Suspense>` around static content',
+    files: app('', '  <Suspense>\n    <div>probe</div>\n  </Suspense>'),
+  },
+  {
+    name: 'defineModel',
+    description: 'Child component with `defineModel`, bound with `v-model`',
+    files: {
+      ...app(`import { ref } from 'vue'\nimport Child from './Child.vue'\nconst text = ref('')`, '  <Child v-model="text" />'),
+      'Child.vue': `<script setup vapor lang="ts">\nconst model = defineModel<string>()\n</script>\n\n<template>\n  <input v-model="model" />\n</template>\n`,
+    },
+  },
+]
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Restrict the probes to the features requested on the command line
+ * The baseline is always included
+ * @param names - Requested feature names (empty selects all)
+ * @returns Selected probes in registry order
+ */
+export function selectProbes(names: string[]): Probe[] {
+  const unknown: string[] = names.filter((name: string) => !PROBES.some((p: Probe) => p.name === name))
+  if (unknown.length > 0) {
+    const known: string = PROBES.map((p: Probe) => p.name).join(', ')
+    throw new Error(`Unknown probe feature(s): ${unknown.join(', ')} (available: ${known})`)
+  }
+  return PROBES.filter((p: Probe) => p.name === BASELINE_PROBE || names.length === 0 || names.includes(p.name))
+}
+
+/**
+ * Write a probe app to disk and describe it as a fixture
+ * @param root - Project root
+ * @param dir - Scratch directory receiving the probe sources (replaced)
+ * @param probe - Probe to write
+ * @returns Fixture named `probe:<name>` for runBuild()
+ */
+export function writeProbe(root: string, dir: string, probe: Probe): Fixture {
+  rmSync(dir, { recursive: true, force: true })
+  mkdirSync(dir, { recursive: true })
+  writeFileSync(path.join(dir, 'index.html'), INDEX_HTML)
+  writeFileSync(path.join(dir, 'main.ts'), MAIN_TS)
+  for (const [file, source] of Object.entries(probe.files)) {
+    writeFileSync(path.join(dir, file), source)
+  }
+  return createFixture(root, `${PROBE_FIXTURE_PREFIX}${probe.name}`, dir, dir)
+}
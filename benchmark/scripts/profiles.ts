@@ -0,0 +1,144 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Build Profiles
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Named variations of the ship build: minifier, `build.target`, the Vue
+// feature flags `__VUE_OPTIONS_API__` and `__VUE_PROD_DEVTOOLS__`, and
+// `build.modulePreload`. A setting a profile leaves out keeps the value of the
+// project's Vite config (and @vitejs/plugin-vue's flag defaults), so the
+// ship build itself is the empty profile. Profiles come from
+// benchmark/profiles.json and are recorded with mode `profile` and their name
+// as `profile` in history.
+
+import { readFileSync } from 'node:fs'
+import type { BuildEnvironmentOptions } from 'vite'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Type Definitions
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type Minifier = 'oxc' | 'esbuild' | 'terser'
+
+export interface BuildProfile {
+  /** JS minifier (`build.minify`) */
+  minify?: Minifier
+  /** `build.target`, e.g. `es2020` or `esnext` */
+  target?: string
+  /** `__VUE_OPTIONS_API__`; plugin-vue defaults to true */
+  optionsApi?: boolean
+  /** `__VUE_PROD_DEVTOOLS__`; plugin-vue defaults to false */
+  prodDevtools?: boolean
+  /** Whether `build.modulePreload` (and its polyfill) is on */
+  modulePreload?: boolean
+}
+
+export interface ProfileConfig {
+  /** Profiles by name, in the order they are built */
+  profiles: Record<string, BuildProfile>
+}
+
+/** Inline Vite config a profile adds to the build */
+export interface ProfileOverrides {
+  define: Record<string, string>
+  build: Pick<BuildEnvironmentOptions, 'minify' | 'target' | 'modulePreload'>
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration & Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const MINIFIERS: Minifier[] = ['oxc', 'esbuild', 'terser']
+
+/** Name that selects every profile in the config */
+export const ALL_PROFILES = 'all'
+
+const BOOLEAN_SETTINGS: (keyof BuildProfile)[] = ['optionsApi', 'prodDevtools', 'modulePreload']
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read and check the profile file
+ * Like the budget file, a missing or malformed profile file is an error
+ * @param file - Path of profiles.json
+ * @returns Parsed configuration
+ */
+export function readProfileConfig(file: string): ProfileConfig {
+  const config = JSON.parse(readFileSync(file, 'utf8')) as ProfileConfig
+  if (typeof config.profiles !== 'object' || config.profiles === null || Array.isArray(config.profiles)) {
+    throw new Error(`${file}: "profiles" must map profile names to settings`)
+  }
+
+  for (const [name, profile] of Object.entries(config.profiles)) {
+    if (name === ALL_PROFILES) {
+      throw new Error(`${file}: "${ALL_PROFILES}" is reserved for selecting every profile`)
+    }
+    if (profile.minify !== undefined && !MINIFIERS.includes(profile.minify)) {
+      throw new Error(`${file}: profiles.${name}.minify must be one of ${MINIFIERS.join(', ')}`)
+    }
+    if (profile.target !== undefined && typeof profile.target !== 'string') {
+      throw new Error(`${file}: profiles.${name}.target must be a string`)
+    }
+    for (const key of BOOLEAN_SETTINGS) {
+      if (profile[key] !== undefined && typeof profile[key] !== 'boolean') {
+        throw new Error(`${file}: profiles.${name}.${key} must be true or false`)
+      }
+    }
+  }
+  return config
+}
+
+/**
+ * Restrict the profiles to the names requested on the command line
+ * @param config - Parsed profile file
+ * @param names - Requested profile names; `all` selects every profile
+ * @returns Selected profile names in config order
+ */
+export function selectProfiles(config: ProfileConfig, names: string[]): string[] {
+  const all: string[] = Object.keys(config.profiles)
+  if (names.includes(ALL_PROFILES)) return all
+
+  const unknown: string[] = names.filter((name: string) => !all.includes(name))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown profile(s): ${unknown.join(', ')} (available: ${all.join(', ')}, or ${ALL_PROFILES})`)
+  }
+  return all.filter((name: string) => names.includes(name))
+}
+
+/**
+ * Inline Vite config for a profile
+ * plugin-vue only fills in the feature flags that are not defined yet, so
+ * defining them here takes precedence.
+ * @param profile - Profile settings
+ * @returns Defines and build options for the settings the profile sets
+ */
+export function getProfileOverrides(profile: BuildProfile): ProfileOverrides {
+  return {
+    define: {
+      ...(profile.optionsApi !== undefined && { __VUE_OPTIONS_API__: JSON.stringify(profile.optionsApi) }),
+      ...(profile.prodDevtools !== undefined && { __VUE_PROD_DEVTOOLS__: JSON.stringify(profile.prodDevtools) }),
+    },
+    build: {
+      ...(profile.minify !== undefined && { minify: profile.minify }),
+      ...(profile.target !== undefined && { target: profile.target }),
+      ...(profile.modulePreload !== undefined && { modulePreload: profile.modulePreload }),
+    },
+  }
+}
+
+/**
+ * Describe a profile's settings for reports
+ * @param profile - Profile settings
+ * @returns Comma-separated settings, or a note that the ship build is unchanged
+ */
+export function describeProfile(profile: BuildProfile): string {
+  const settings: string[] = [
+    ...(profile.minify !== undefined ? [`minify ${profile.minify}`] : []),
+    ...(profile.target !== undefined ? [`target ${profile.target}`] : []),
+    ...(profile.optionsApi !== undefined ? [`Options API ${profile.optionsApi ? 'on' : 'off'}`] : []),
+    ...(profile.prodDevtools !== undefined ? [`prod devtools ${profile.prodDevtools ? 'on' : 'off'}`] : []),
+    ...(profile.modulePreload !== undefined ? [`modulePreload ${profile.modulePreload ? 'on' : 'off'}`] : []),
+  ]
+  return settings.length > 0 ? settings.join(', ') : 'ship build defaults'
+}
@@ -0,0 +1,168 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// User Project
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Describes a Vapor app outside this repository as a fixture, so
+// compare-builds.ts --project builds it as Vapor and Classic like the bundled
+// ones. Nothing is configured by hand: the entry's app factory and root
+// component are read from its source, the Vapor SFCs are the files matching
+// the SFC globs that contain `<script setup vapor>`, and both variants use the
+// project's own Vite config.
+
+import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs'
+import path from 'node:path'
+import picomatch from 'picomatch'
+import type { Fixture } from './fixtures'
+
+/** How the entry creates the app */
+export type AppFactory = 'vapor' | 'vdom'
+
+export interface ProjectOptions {
+  /** Project directory holding index.html and the Vite config */
+  dir: string
+  /** Entry module, relative to the project directory */
+  entry: string
+  /** SFC globs, relative to the project directory */
+  sfcs: string[]
+  /** Fixture name in reports and history; defaults to the directory name */
+  name?: string
+}
+
+export interface Project {
+  fixture: Fixture
+  factory: AppFactory
+  /** SFCs matching the globs that are not Vapor and build the same in both variants */
+  vdomSfcs: string[]
+}
+
+/** Config file names Vite looks for, in its own order */
+const VITE_CONFIG_FILES: string[] = [
+  'vite.config.js',
+  'vite.config.mjs',
+  'vite.config.ts',
+  'vite.config.cjs',
+  'vite.config.mts',
+  'vite.config.cts',
+]
+
+/** Directories never searched for SFCs */
+const IGNORED_DIRS: string[] = ['node_modules', 'dist']
+
+/**
+ * Locate the project's Vite config
+ * @param dir - Project directory
+ * @returns Absolute path of the first config file Vite would load
+ * @throws Error when the project has none, since builds need its Vue plugin
+ */
+function findViteConfig(dir: string): string {
+  const file: string | undefined = VITE_CONFIG_FILES
+    .map((name: string) => path.join(dir, name))
+    .find((candidate: string) => existsSync(candidate))
+  if (!file) {
+    throw new Error(`No Vite config in ${dir} (expected one of ${VITE_CONFIG_FILES.join(', ')})`)
+  }
+  return file
+}
+
+/**
+ * Recursively collect all .vue files under a directory, skipping dependencies and build output
+ * @param dir - Absolute directory path
+ * @returns Absolute paths of all SFCs, sorted
+ */
+function findSfcs(dir: string): string[] {
+  const files: string[] = []
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const fullPath: string = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.includes(entry.name) && !entry.name.startsWith('.')) files.push(...findSfcs(fullPath))
+    } else if (entry.isFile() && entry.name.endsWith('.vue')) {
+      files.push(fullPath)
+    }
+  }
+  return files.sort()
+}
+
+/**
+ * Whether an SFC compiles to Vapor
+ * Looks at the `<script setup>` tag the same way the Classic transform strips it
+ * @param source - SFC source code
+ */
+export function isVaporSfc(source: string): boolean {
+  const tag: string | undefined = source.match(/<script\s+setup[^>]*?>/)?.[0]
+  return tag !== undefined && /\s+vapor(?=\s|>)/.test(tag)
+}
+
+/**
+ * Find which app factory an entry module calls
+ * @param source - Entry module source code
+ * @returns `vapor` for createVaporApp(), `vdom` for createApp() hosting Vapor components
+ * @throws Error when the entry calls neither
+ */
+export function detectAppFactory(source: string): AppFactory {
+  if (/\bcreateVaporApp\s*\(/.test(source)) return 'vapor'
+  if (/\bcreateApp\s*\(/.test(source)) return 'vdom'
+  throw new Error('The entry calls neither createVaporApp() nor createApp()')
+}
+
+/**
+ * Find the root component an entry module mounts
+ * Takes the only default-imported SFC, or the one passed to the app factory
+ * when the entry imports several.
+ * @param source - Entry module source code
+ * @param entry - Absolute path of the entry module
+ * @returns Absolute path of the root SFC, undefined when it is ambiguous
+ */
+export function findRootComponent(source: string, entry: string): string | undefined {
+  const imports: [string, string][] = [...source.matchAll(/import\s+([\w$]+)\s+from\s+['"]([^'"]+\.vue)['"]/g)]
+    .map((match: RegExpMatchArray): [string, string] => [match[1], match[2]])
+  const factoryArg: string | undefined = source.match(/\bcreate(?:Vapor)?App\s*\(\s*([\w$]+)/)?.[1]
+  const root: [string, string] | undefined = imports.length === 1
+    ? imports[0]
+    : imports.find(([name]) => name === factoryArg)
+  if (!root || !root[1].startsWith('.')) return undefined
+  return path.resolve(path.dirname(entry), root[1])
+}
+
+/**
+ * Describe a project as a fixture
+ * @param root - Root of this repository; fixture paths are relative to it
+ * @param options - Project directory, entry and SFC globs
+ * @returns Fixture built with the project's Vite config, plus what was detected
+ * @throws Error when the directory, entry or Vite config is missing or the entry creates no app
+ */
+export function loadProject(root: string, options: ProjectOptions): Project {
+  const dir: string = path.resolve(root, options.dir)
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+    throw new Error(`Project directory ${dir} does not exist`)
+  }
+
+  const entry: string = path.resolve(dir, options.entry)
+  if (!existsSync(entry)) {
+    throw new Error(`Entry ${options.entry} does not exist in ${dir}`)
+  }
+  const entrySource: string = readFileSync(entry, 'utf8')
+
+  const isSelected: (file: string) => boolean = picomatch(options.sfcs)
+  const vaporSfcs: string[] = []
+  const vdomSfcs: string[] = []
+  for (const file of findSfcs(dir)) {
+    if (!isSelected(path.relative(dir, file).split(path.sep).join('/'))) continue
+    ;(isVaporSfc(readFileSync(file, 'utf8')) ? vaporSfcs : vdomSfcs).push(path.relative(root, file))
+  }
+
+  return {
+    fixture: {
+      name: options.name ?? path.basename(dir),
+      root: dir,
+      srcDir: path.dirname(entry),
+      entry: path.relative(root, entry),
+      sfcs: vaporSfcs,
+      app: findRootComponent(entrySource, entry),
+      configFile: findViteConfig(dir),
+      projectRoot: dir,
+      mode: 'production',
+    },
+    factory: detectAppFactory(entrySource),
+    vdomSfcs,
+  }
+}
@@ -0,0 +1,203 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Runtime Benchmark
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Mounts a production build from benchmark/artifacts in happy-dom and times
+// mount, update and unmount. Every sample starts from a fresh window so no
+// state carries over between runs.
+
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import { performance } from 'node:perf_hooks'
+import { Window } from 'happy-dom'
+
+export interface RuntimeOptions {
+  /** Measured samples per phase */
+  samples: number
+  /** Discarded samples run before measuring, to warm up the JIT */
+  warmup: number
+  /** Button clicks per update sample */
+  updates: number
+}
+
+/** Timing distribution of one phase in milliseconds */
+export interface TimingStats {
+  median: number
+  p95: number
+  samples: number
+}
+
+/**
+ * Runtime timings of one build
+ * `update` is absent when the app renders no button,
+ * `unmount` is absent when unmounting threw (see `errors`) or the runtime
+ * cannot unmount the app (see `unmountUnsupported`)
+ */
+export interface RuntimeMetrics {
+  /** Evaluating the bundle, which creates and mounts the app */
+  mount: TimingStats
+  /** Clicking the first button `updates` times, flushing after every click */
+  update?: TimingStats
+  unmount?: TimingStats
+  updates: number
+  errors?: string[]
+  /** Why `app.unmount()` cannot be timed for this build, e.g. a Vapor app on a Vue release that cannot unmount it */
+  unmountUnsupported?: string
+}
+
+/** Mounted app as exposed on its container by Vue (`container.__vue_app__`) */
+interface MountedApp {
+  unmount(): void
+  /** Set by createVaporApp() */
+  vapor?: boolean
+}
+
+/**
+ * Error of Vue 3.6.0-beta's Vapor unmountApp(), which reads app._instance;
+ * production builds only set it with devtools enabled, so a createVaporApp()
+ * app cannot be unmounted. Any other unmount error is reported in `errors`.
+ */
+const VAPOR_UNMOUNT_BUG: RegExp = /Cannot read properties of (?:null|undefined) \(reading 'shapeFlag'\)/
+
+/** Outcome of one mount/update/unmount sample */
+interface Sample {
+  mount: number
+  update?: number
+  unmount?: number
+  error?: string
+  unsupported?: string
+}
+
+/**
+ * Locate the entry script and the container markup of a build
+ * @param outputDir - Build output directory containing index.html
+ * @returns Bundle source and the body markup to mount into
+ */
+export function loadBuild(outputDir: string): { code: string; body: string } {
+  const html: string = readFileSync(path.join(outputDir, 'index.html'), 'utf8')
+  const src: string | undefined = html.match(/<script[^>]*type="module"[^>]*src="([^"]+)"/)?.[1]
+  if (!src) {
+    throw new Error(`No module script found in ${path.join(outputDir, 'index.html')}`)
+  }
+
+  const code: string = readFileSync(path.join(outputDir, src), 'utf8')
+  if (/^import[\s{*]/m.test(code) || /\bimport\s*\(/.test(code)) {
+    throw new Error(`${src} imports other chunks; runtime benchmarks need a single-chunk production build`)
+  }
+
+  const body: string = html.match(/<body[^>]*>([\s\S]*)<\/body>/)?.[1] ?? '<div id="app"></div>'
+  return { code, body: body.replace(/<script[\s\S]*?<\/script>/g, '') }
+}
+
+/**
+ * Wait until Vue's scheduler has flushed pending updates
+ * The scheduler flushes in a microtask, which always runs before setImmediate
+ */
+function flushUpdates(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve))
+}
+
+/**
+ * Summarize timing samples
+ * @param samples - Durations in milliseconds
+ * @returns Median and 95th percentile (nearest rank)
+ */
+function summarize(samples: number[]): TimingStats {
+  const sorted: number[] = [...samples].sort((a: number, b: number) => a - b)
+  const median: number = sorted.length % 2 === 1
+    ? sorted[(sorted.length - 1) / 2]
+    : (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
+  const p95: number = sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1)]
+
+  return {
+    median: Number(median.toFixed(3)),
+    p95: Number(p95.toFixed(3)),
+    samples: sorted.length,
+  }
+}
+
+/**
+ * Mount, update and unmount a build once in a fresh window
+ * @param code - Bundle source
+ * @param body - Body markup containing the mount container
+ * @param updates - Number of button clicks
+ * @returns Durations in milliseconds; update/unmount are undefined when skipped or failed
+ */
+async function runSample(code: string, body: string, updates: number): Promise<Sample> {
+  const window = new Window({ url: 'http://localhost/' })
+  window.document.body.innerHTML = body
+
+  try {
+    let start: number = performance.now()
+    window.eval(code)
+    const mount: number = performance.now() - start
+
+    let update: number | undefined
+    const button = window.document.querySelector('button')
+    if (button) {
+      start = performance.now()
+      for (let i = 0; i < updates; i++) {
+        button.click()
+        await flushUpdates()
+      }
+      update = performance.now() - start
+    }
+
+    const container = window.document.querySelector('[data-v-app]') as unknown as { __vue_app__?: MountedApp } | null
+    const app: MountedApp | undefined = container?.__vue_app__
+    if (!app) {
+      return { mount, update, error: 'unmount: no app found on the mount container' }
+    }
+
+    try {
+      start = performance.now()
+      app.unmount()
+      return { mount, update, unmount: performance.now() - start }
+    } catch (err) {
+      const message: string = err instanceof Error ? err.message : String(err)
+      // Teardown is not timed another way because nothing else reaches the
+      // root component instance
+      if (app.vapor && VAPOR_UNMOUNT_BUG.test(message)) {
+        return { mount, update, unsupported: `app.unmount() throws for createVaporApp() apps in this Vue release (${message})` }
+      }
+      return { mount, update, error: `unmount: ${message}` }
+    }
+  } finally {
+    await window.happyDOM.close()
+  }
+}
+
+/**
+ * Measure mount, update and unmount timings of a production build
+ * @param outputDir - Build output directory (e.g. benchmark/artifacts/example/vapor)
+ * @param options - Sample counts and update workload
+ * @returns Median and p95 per phase
+ */
+export async function measureRuntime(outputDir: string, options: RuntimeOptions): Promise<RuntimeMetrics> {
+  const { code, body } = loadBuild(outputDir)
+  const mount: number[] = []
+  const update: number[] = []
+  const unmount: number[] = []
+  const errors: Set<string> = new Set()
+  let unsupported: string | undefined
+
+  for (let i = 0; i < options.warmup + options.samples; i++) {
+    const sample: Sample = await runSample(code, body, options.updates)
+    if (i < options.warmup) continue
+
+    mount.push(sample.mount)
+    if (sample.update !== undefined) update.push(sample.update)
+    if (sample.unmount !== undefined) unmount.push(sample.unmount)
+    if (sample.error) errors.add(sample.error)
+    unsupported ??= sample.unsupported
+  }
+
+  return {
+    mount: summarize(mount),
+    ...(update.length > 0 && { update: summarize(update) }),
+    ...(unmount.length > 0 && { unmount: summarize(unmount) }),
+    updates: options.updates,
+    ...(errors.size > 0 && { errors: [...errors] }),
+    ...(unsupported !== undefined && { unmountUnsupported: unsupported }),
+  }
+}
@@ -0,0 +1,313 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Source Diff
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Pairs the compiled modules of an inspect build (`preserveModules` output in
+// artifacts/<fixture>/{vapor,classic}) and renders their sizes and a unified
+// diff per module as a static HTML page. Module names differ between the two
+// variants only in compiler-generated parts (`_vapor_true` in SFC script
+// modules, the scope hash in scoped CSS), which are normalized for pairing.
+
+import { readFileSync, readdirSync } from 'node:fs'
+import path from 'node:path'
+import { gzipSync } from 'node:zlib'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Type Definitions
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface ModuleSizes {
+  raw: number
+  gzipped: number
+}
+
+/** One compiled module, present in either or both builds */
+export interface ModulePair {
+  /** Module path with variant-specific parts normalized */
+  key: string
+  /** Whether the module was compiled from the fixture itself (not node_modules or a virtual helper) */
+  isApp: boolean
+  vapor?: { file: string; code: string; sizes: ModuleSizes }
+  classic?: { file: string; code: string; sizes: ModuleSizes }
+}
+
+/** Paired modules of one fixture's inspect build */
+export interface FixtureModules {
+  fixture: string
+  modules: ModulePair[]
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration & Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Unchanged lines shown around each change */
+const DIFF_CONTEXT_LINES = 3
+
+/** Modules with more lines are not diffed; the line LCS table grows quadratically */
+const MAX_DIFF_LINES = 3000
+
+/** Compiled output that is paired; source maps and HTML are skipped */
+const MODULE_EXTENSIONS: string[] = ['.js', '.mjs', '.css']
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Module Pairing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * List compiled modules of a build output directory
+ * @param dir - Build output directory
+ * @returns Paths relative to dir with forward slashes
+ */
+function listModules(dir: string): string[] {
+  return readdirSync(dir, { recursive: true, withFileTypes: true })
+    .filter((entry) => entry.isFile() && MODULE_EXTENSIONS.includes(path.extname(entry.name)))
+    .map((entry) => path.relative(dir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'))
+}
+
+/**
+ * Normalize a module path so both variants of a module get the same key
+ * @param file - Module path relative to the build output
+ * @returns Path without the vapor query marker and scoped CSS hashes
+ */
+export function normalizeModulePath(file: string): string {
+  return file
+    .replace(/_vapor_true/g, '')
+    .replace(/_scoped_[0-9a-f]+/g, '_scoped')
+}
+
+/**
+ * Read a module and measure it
+ */
+function readModule(dir: string, file: string): { file: string; code: string; sizes: ModuleSizes } {
+  const data: Buffer = readFileSync(path.join(dir, file))
+  return { file, code: data.toString('utf8'), sizes: { raw: data.length, gzipped: gzipSync(data).length } }
+}
+
+/**
+ * Pair the compiled modules of a Vapor and a Classic inspect build
+ * App modules come first, then dependencies; each group is sorted by path
+ * @param fixture - Fixture name
+ * @param vaporDir - Vapor build output
+ * @param classicDir - Classic build output
+ * @returns Paired modules
+ */
+export function pairModules(fixture: string, vaporDir: string, classicDir: string): FixtureModules {
+  const pairs: Map<string, ModulePair> = new Map()
+  const getPair = (key: string): ModulePair => {
+    if (!pairs.has(key)) {
+      pairs.set(key, { key, isApp: !key.startsWith('node_modules/') && !key.startsWith('_virtual/') })
+    }
+    return pairs.get(key)!
+  }
+
+  for (const file of listModules(vaporDir)) getPair(normalizeModulePath(file)).vapor = readModule(vaporDir, file)
+  for (const file of listModules(classicDir)) getPair(normalizeModulePath(file)).classic = readModule(classicDir, file)
+
+  const modules: ModulePair[] = [...pairs.values()].sort((a: ModulePair, b: ModulePair) =>
+    Number(b.isApp) - Number(a.isApp) || a.key.localeCompare(b.key)
+  )
+  return { fixture, modules }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Unified Diff
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Diff two texts line by line using their longest common subsequence
+ * @param before - Old text
+ * @param after - New text
+ * @returns Edit script covering every line of both texts
+ */
+function diffLines(before: string, after: string): DiffOp[] {
+  const a: string[] = before.split('\n')
+  const b: string[] = after.split('\n')
+  const width: number = b.length + 1
+
+  // lcs[i * width + j] = length of the LCS of a[i..] and b[j..]
+  const lcs: Uint32Array = new Uint32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+    }
+  }
+
+  const ops: DiffOp[] = []
+  let i: number = 0
+  let j: number = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i] })
+      i++
+      j++
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: '-', line: a[i++] })
+    } else {
+      ops.push({ type: '+', line: b[j++] })
+    }
+  }
+  while (i < a.length) ops.push({ type: '-', line: a[i++] })
+  while (j < b.length) ops.push({ type: '+', line: b[j++] })
+  return ops
+}
+
+/**
+ * Create a unified diff with context lines and hunk headers
+ * @param before - Old text
+ * @param after - New text
+ * @param labels - File names for the `---` and `+++` header lines
+ * @returns Unified diff lines (only the headers when the texts are equal)
+ */
+export function unifiedDiff(before: string, after: string, labels: [string, string]): string[] {
+  const ops: DiffOp[] = diffLines(before, after)
+  const lines: string[] = [`--- ${labels[0]}`, `+++ ${labels[1]}`]
+
+  // Indices of changed ops, grouped into hunks when their context overlaps
+  const changes: number[] = ops.flatMap((op: DiffOp, index: number) => (op.type === ' ' ? [] : [index]))
+  let index: number = 0
+  while (index < changes.length) {
+    let end: number = index
+    while (end + 1 < changes.length && changes[end + 1] - changes[end] <= DIFF_CONTEXT_LINES * 2) end++
+
+    const start: number = Math.max(0, changes[index] - DIFF_CONTEXT_LINES)
+    const stop: number = Math.min(ops.length, changes[end] + DIFF_CONTEXT_LINES + 1)
+
+    // Line numbers where the hunk starts in both texts
+    const prefix: DiffOp[] = ops.slice(0, start)
+    const oldStart: number = prefix.filter((op: DiffOp) => op.type !== '+').length + 1
+    const newStart: number = prefix.filter((op: DiffOp) => op.type !== '-').length + 1
+    const hunk: DiffOp[] = ops.slice(start, stop)
+    const oldCount: number = hunk.filter((op: DiffOp) => op.type !== '+').length
+    const newCount: number = hunk.filter((op: DiffOp) => op.type !== '-').length
+
+    lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`)
+    lines.push(...hunk.map((op: DiffOp) => `${op.type}${op.line}`))
+    index = end + 1
+  }
+
+  return lines
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HTML Rendering
+// ─────────────────────────────────────────────────────────────────────────────
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function formatBytes(bytes: number | undefined): string {
+  return bytes === undefined ? '—' : `${bytes.toLocaleString('en-US')} B`
+}
+
+function formatSignedBytes(bytes: number): string {
+  return `${bytes > 0 ? '+' : ''}${bytes.toLocaleString('en-US')} B`
+}
+
+/**
+ * Render the per-module size table of one fixture
+ */
+function renderSizeTable(fixture: string, modules: ModulePair[]): string {
+  const rows: string = modules.map((m: ModulePair) => {
+    const delta: string = m.vapor && m.classic
+      ? formatSignedBytes(m.vapor.sizes.gzipped - m.classic.sizes.gzipped)
+      : m.vapor ? 'Vapor only' : 'Classic only'
+    const name: string = m.isApp ? `<a href="#${escapeHtml(`${fixture}/${m.key}`)}">${escapeHtml(m.key)}</a>` : escapeHtml(m.key)
+    return `<tr><td>${name}</td><td>${formatBytes(m.vapor?.sizes.raw)}</td><td>${formatBytes(m.classic?.sizes.raw)}</td>`
+      + `<td>${formatBytes(m.vapor?.sizes.gzipped)}</td><td>${formatBytes(m.classic?.sizes.gzipped)}</td><td>${delta}</td></tr>`
+  }).join('\n')
+
+  return `<table>
+<thead><tr><th>Module</th><th>Vapor (raw)</th><th>Classic (raw)</th><th>Vapor (gzipped)</th><th>Classic (gzipped)</th><th>Delta (gzipped)</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`
+}
+
+/**
+ * Render the unified diff of one app module, Classic → Vapor
+ */
+function renderModuleDiff(fixture: string, m: ModulePair): string {
+  const lineCount: number = Math.max(
+    m.vapor?.code.split('\n').length ?? 0,
+    m.classic?.code.split('\n').length ?? 0
+  )
+  let body: string
+  if (lineCount > MAX_DIFF_LINES) {
+    body = `<p>Not diffed: more than ${MAX_DIFF_LINES.toLocaleString('en-US')} lines.</p>`
+  } else {
+    const diff: string[] = unifiedDiff(
+      m.classic?.code ?? '',
+      m.vapor?.code ?? '',
+      [m.classic ? `classic/${m.classic.file}` : '/dev/null', m.vapor ? `vapor/${m.vapor.file}` : '/dev/null']
+    )
+    const rendered: string = diff.length === 2
+      ? '<span class="hunk">Identical output</span>'
+      : diff.map((line: string, i: number) => {
+        const kind: string = i < 2 ? 'file' : line.startsWith('@@') ? 'hunk' : line[0] === '+' ? 'add' : line[0] === '-' ? 'del' : 'ctx'
+        return `<span class="${kind}">${escapeHtml(line)}</span>`
+      }).join('\n')
+    body = `<pre>${rendered}</pre>`
+  }
+
+  return `<details id="${escapeHtml(`${fixture}/${m.key}`)}" open>
+<summary><code>${escapeHtml(m.key)}</code> · ${escapeHtml(fixture)}</summary>
+${body}
+</details>`
+}
+
+/**
+ * Render the source diff page for all inspected fixtures
+ * @param fixtures - Paired modules per fixture
+ * @param vueVersion - Vue version the builds were compiled with
+ * @returns Complete HTML document
+ */
+export function renderSourceDiffPage(fixtures: FixtureModules[], vueVersion: string): string {
+  const sections: string = fixtures.map(({ fixture, modules }: FixtureModules) => {
+    const appModules: ModulePair[] = modules.filter((m: ModulePair) => m.isApp)
+    return `<section>
+<h2>${escapeHtml(fixture)}</h2>
+${renderSizeTable(fixture, modules)}
+<h3>Compiled app modules (Classic → Vapor)</h3>
+${appModules.map((m: ModulePair) => renderModuleDiff(fixture, m)).join('\n')}
+</section>`
+  }).join('\n')
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Vapor vs Classic: Compiled Modules</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+  table { border-collapse: collapse; margin: 1rem 0; }
+  th, td { border: 1px solid #d0d7de; padding: 0.25rem 0.5rem; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  details { margin: 1rem 0; border: 1px solid #d0d7de; border-radius: 6px; }
+  summary { padding: 0.5rem; cursor: pointer; background: #f6f8fa; }
+  pre { margin: 0; padding: 0.5rem; overflow-x: auto; font-size: 12px; }
+  pre span { display: block; white-space: pre; }
+  .file { font-weight: bold; }
+  .hunk { color: #8250df; }
+  .add { background: #dafbe1; }
+  .del { background: #ffebe9; }
+</style>
+</head>
+<body>
+<h1>Vapor vs Classic: Compiled Modules</h1>
+<p>Vue ${escapeHtml(vueVersion)} · inspect build (unminified, one output file per module) · generated ${new Date().toISOString()}</p>
+${sections}
+</body>
+</html>
+`
+}
@@ -0,0 +1,122 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// SSR Benchmark
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Builds a fixture for server-side rendering. The server bundle comes from
+// `vite build --ssr` around a generated entry that renders the fixture's
+// App.vue with createSSRApp() and renderToString(); `vue` stays external as
+// in a real server build. The client build hydrates instead of mounting:
+// hydrationEntryPlugin() switches the entry to createVaporSSRApp() or
+// createSSRApp(). ssr-render.ts renders the app once in a separate process
+// so the HTML comes from a production build of the server renderer.
+
+import { execFileSync } from 'node:child_process'
+import { mkdirSync, rmSync, symlinkSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import path from 'node:path'
+import { normalizePath, type Plugin } from 'vite'
+import type { SizeMetrics } from './history'
+
+/** Sizes of one variant's SSR build; a size is absent when its step did not run */
+export interface SsrMetrics {
+  /** Server bundle without `vue`, which stays external */
+  server?: SizeMetrics
+  /** Client build whose entry hydrates the server-rendered HTML */
+  client?: SizeMetrics
+  /** HTML string rendered by the server bundle */
+  html?: SizeMetrics
+  /** Excerpt of the failed step's output */
+  error?: string
+}
+
+/** Module id of the generated server entry */
+export const SSR_ENTRY_ID = 'virtual:vapor-benchmark/ssr-entry'
+
+/** Function the server entry exports to render the app */
+export const SSR_RENDER_EXPORT = 'render'
+
+/** File name of the server entry in the server build output */
+export const SSR_SERVER_FILE = 'server.mjs'
+
+const RESOLVED_SSR_ENTRY_ID = `\0${SSR_ENTRY_ID}`
+
+const __dirname: string = fileURLToPath(new URL('.', import.meta.url))
+const renderScript: string = path.join(__dirname, 'ssr-render.ts')
+
+/**
+ * Whether an import stays external in the server bundle
+ * Matches `vue`, `vue/*` and `@vue/*` before any plugin resolves them, so
+ * --vue builds keep them external too.
+ * @param id - Import specifier
+ */
+export function isVueImport(id: string): boolean {
+  return /^(vue|@vue\/[^/]+)(\/|$)/.test(id)
+}
+
+/**
+ * Vite plugin that provides the server entry
+ * @param app - Absolute path of the root component
+ * @returns Plugin resolving and loading SSR_ENTRY_ID
+ */
+export function ssrEntryPlugin(app: string): Plugin {
+  return {
+    name: 'vapor-benchmark:ssr-entry',
+    resolveId(id: string) {
+      return id === SSR_ENTRY_ID ? RESOLVED_SSR_ENTRY_ID : null
+    },
+    load(id: string) {
+      if (id !== RESOLVED_SSR_ENTRY_ID) return null
+      return [
+        `import { createSSRApp } from 'vue'`,
+        `import { renderToString } from 'vue/server-renderer'`,
+        `import App from ${JSON.stringify(normalizePath(app))}`,
+        `export function ${SSR_RENDER_EXPORT}() {`,
+        `  return renderToString(createSSRApp(App))`,
+        `}`,
+      ].join('\n')
+    },
+  }
+}
+
+/**
+ * Vite plugin that makes the fixture's entry hydrate instead of mount
+ * Replaces createVaporApp with createVaporSSRApp and createApp with
+ * createSSRApp; add it after classicRuntimePlugin() for the Classic variant.
+ * @param entry - Absolute path of the fixture's entry module
+ * @returns Pre-enforced transform plugin
+ */
+export function hydrationEntryPlugin(entry: string): Plugin {
+  const entryId: string = normalizePath(entry)
+
+  return {
+    name: 'vapor-benchmark:hydration-entry',
+    enforce: 'pre',
+    transform(code: string, id: string) {
+      if (id !== entryId) return null
+      return code.replace(/\bcreate(Vapor)?App\b/g, 'create$1SSRApp')
+    },
+  }
+}
+
+/**
+ * Render the app with a server bundle
+ * Links the Vue build under test as `node_modules/vue` next to the server
+ * output, since the bundle imports it by name.
+ * @param serverDir - Output directory of the server build
+ * @param vueDir - Directory of the vue package to render with
+ * @returns Rendered HTML
+ */
+export function renderServerBundle(serverDir: string, vueDir: string): string {
+  const modulesDir: string = path.join(path.dirname(serverDir), 'node_modules')
+  rmSync(modulesDir, { recursive: true, force: true })
+  mkdirSync(modulesDir, { recursive: true })
+  symlinkSync(vueDir, path.join(modulesDir, 'vue'), 'dir')
+
+  const output: string = execFileSync(
+    process.execPath,
+    ['--import', 'tsx', renderScript, path.join(serverDir, SSR_SERVER_FILE)],
+    { encoding: 'utf8', stdio: ['ignore', 'pipe', 'inherit'], env: { ...process.env, NODE_ENV: 'production' } }
+  )
+  const lastLine: string = output.trim().split('\n').pop() ?? ''
+  return (JSON.parse(lastLine) as { html: string }).html
+}
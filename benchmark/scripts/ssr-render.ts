@@ -0,0 +1,24 @@
+#!/usr/bin/env node
+
+/**
+ * Child process for ssr-benchmark.ts, run with NODE_ENV=production.
+ * Imports a server bundle built around the SSR entry, renders the app once
+ * and prints the HTML as JSON on the last stdout line.
+ *
+ * Usage: node --import tsx ssr-render.ts <serverEntry>
+ */
+
+import { pathToFileURL } from 'node:url'
+import { SSR_RENDER_EXPORT } from './ssr-benchmark'
+
+const [serverEntry] = process.argv.slice(2)
+
+if (!serverEntry) {
+  console.error('Usage: ssr-render.ts <serverEntry>')
+  process.exit(1)
+}
+
+const server = (await import(pathToFileURL(serverEntry).href)) as Record<string, () => Promise<string>>
+const html: string = await server[SSR_RENDER_EXPORT]()
+
+console.log(JSON.stringify({ html }))
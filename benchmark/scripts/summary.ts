@@ -0,0 +1,207 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Benchmark Summary
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Machine-readable outputs of a benchmark run (`--format json|csv`). The JSON
+// summary holds each fixture's current entry, its entry for the previous
+// version in history and the deltas between them, so tools such as the
+// release tracker workflow never reparse build-history.json themselves.
+
+import type { InteropMetrics } from './interop'
+import {
+  findPreviousEntry,
+  isMeasured,
+  type BenchmarkEntry,
+  type BenchmarkHistory,
+  type BuildMetrics,
+  type EntryStatus,
+  type MeasuredEntry,
+  type SizeMetrics,
+} from './history'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Type Definitions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Difference between two sizes */
+export interface SizeChange {
+  bytes: number
+  /** Change in percent of the base size, null when the base is 0 */
+  percent: number | null
+}
+
+/** Change per compression; optional metrics only when both sides have them */
+export type SizeDeltas = Partial<Record<keyof SizeMetrics, SizeChange>>
+
+/** Optional step of a measured entry that failed */
+export interface FailedStep {
+  /** `interop:<scenario>`, `ssr:vapor` or `ssr:classic` */
+  step: string
+  error?: string
+}
+
+export interface FixtureSummary {
+  fixture: string
+  status: EntryStatus
+  /** Interop scenarios and SSR builds that failed; `status` only covers the Vapor and Classic builds */
+  failedSteps: FailedStep[]
+  current: BenchmarkEntry
+  /** Same fixture's last measured entry for an earlier version */
+  previous: MeasuredEntry | null
+  deltas: {
+    /** Vapor - Classic, in percent of Classic; null unless both built */
+    vaporVsClassic: SizeDeltas | null
+    /** Current - previous Vapor build; null without both */
+    vaporSincePrevious: SizeDeltas | null
+    /** Current - previous Classic build; null without both */
+    classicSincePrevious: SizeDeltas | null
+  }
+}
+
+export interface BenchmarkSummary {
+  generatedAt: string
+  vueVersion: string
+  mode: BenchmarkEntry['mode']
+  /** `failed` when any fixture, interop scenario or SSR build failed to build */
+  status: 'ok' | 'failed'
+  fixtures: FixtureSummary[]
+}
+
+/** Output formats selectable with --format */
+export type OutputFormat = 'markdown' | 'json' | 'csv'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration & Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['markdown', 'json', 'csv']
+
+const SIZE_KEYS: (keyof SizeMetrics)[] = ['raw', 'gzipped', 'brotli', 'zstd']
+
+const CSV_COLUMNS: string[] = [
+  'fixture', 'vue_version', 'status', 'build',
+  'raw', 'gzipped', 'brotli', 'zstd',
+  'previous_version', 'previous_gzipped', 'gzipped_change', 'gzipped_change_percent',
+]
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Deltas
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Compare two sizes per compression
+ * @param value - Sizes being compared
+ * @param base - Sizes compared against
+ * @returns value - base for every metric both sides have
+ */
+export function compareSizes(value: SizeMetrics, base: SizeMetrics): SizeDeltas {
+  const deltas: SizeDeltas = {}
+  for (const key of SIZE_KEYS) {
+    const a: number | undefined = value[key]
+    const b: number | undefined = base[key]
+    if (a === undefined || b === undefined) continue
+    deltas[key] = {
+      bytes: a - b,
+      percent: b === 0 ? null : Number((((a - b) / b) * 100).toFixed(2)),
+    }
+  }
+  return deltas
+}
+
+/**
+ * Summarize one fixture's current entry against history
+ * @param entry - Current entry
+ * @param history - History to find the previous version in
+ * @returns Fixture summary
+ */
+function summarizeFixture(entry: BenchmarkEntry, history: BenchmarkHistory): FixtureSummary {
+  const previous: MeasuredEntry | null =
+    findPreviousEntry(history.benchmarks, entry.fixture, entry.vueVersion) ?? null
+  const vapor: BuildMetrics | undefined = entry.vapor
+  const classic: BuildMetrics | undefined = isMeasured(entry) ? entry.classic : undefined
+
+  return {
+    fixture: entry.fixture,
+    status: entry.status,
+    failedSteps: getFailedSteps(entry),
+    current: entry,
+    previous,
+    deltas: {
+      vaporVsClassic: vapor && classic ? compareSizes(vapor, classic) : null,
+      vaporSincePrevious: vapor && previous ? compareSizes(vapor, previous.vapor) : null,
+      classicSincePrevious: classic && previous ? compareSizes(classic, previous.classic) : null,
+    },
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Interop scenarios and SSR builds of an entry that failed
+ * The entry keeps its sizes and `ok` status, but the run still fails
+ * @param entry - Benchmark entry
+ * @returns Failed steps with their error excerpts
+ */
+export function getFailedSteps(entry: BenchmarkEntry): FailedStep[] {
+  if (!isMeasured(entry)) return []
+  return [
+    ...(entry.interop ?? [])
+      .filter((result: InteropMetrics) => !result.build)
+      .map((result: InteropMetrics) => ({ step: `interop:${result.scenario}`, error: result.error })),
+    ...(['vapor', 'classic'] as const)
+      .filter((variant) => entry.ssr?.[variant].error)
+      .map((variant) => ({ step: `ssr:${variant}`, error: entry.ssr?.[variant].error })),
+  ]
+}
+
+/**
+ * Build the JSON summary of a run
+ * @param current - Current benchmark entries, one per fixture
+ * @param history - History to find previous versions in
+ * @returns Summary with current entries, previous entries and deltas
+ */
+export function createSummary(current: BenchmarkEntry[], history: BenchmarkHistory): BenchmarkSummary {
+  const [first] = current
+  return {
+    generatedAt: first.timestamp,
+    vueVersion: first.vueVersion,
+    mode: first.mode,
+    status: current.every((entry: BenchmarkEntry) => isMeasured(entry) && getFailedSteps(entry).length === 0) ? 'ok' : 'failed',
+    fixtures: current.map((entry: BenchmarkEntry) => summarizeFixture(entry, history)),
+  }
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break
+ */
+function escapeCsv(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  const text: string = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Format a summary as CSV with one row per fixture and build
+ * Sizes are in bytes; a build that failed or was not built has empty sizes
+ * @param summary - Summary from createSummary()
+ * @returns CSV text with a header row
+ */
+export function formatCsv(summary: BenchmarkSummary): string {
+  const rows: (string | number | null | undefined)[][] = summary.fixtures.flatMap((f: FixtureSummary) => {
+    const builds: ['vapor' | 'classic', BuildMetrics | undefined, SizeDeltas | null][] = [
+      ['vapor', f.current.vapor, f.deltas.vaporSincePrevious],
+      ['classic', isMeasured(f.current) ? f.current.classic : undefined, f.deltas.classicSincePrevious],
+    ]
+    return builds.map(([build, sizes, change]) => [
+      f.fixture, f.current.vueVersion, f.status, build,
+      sizes?.raw, sizes?.gzipped, sizes?.brotli, sizes?.zstd,
+      f.previous?.vueVersion, f.previous?.[build].gzipped, change?.gzipped?.bytes, change?.gzipped?.percent,
+    ])
+  })
+
+  return [CSV_COLUMNS, ...rows]
+    .map((row: (string | number | null | undefined)[]) => row.map(escapeCsv).join(','))
+    .join('\n') + '\n'
+}
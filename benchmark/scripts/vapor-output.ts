@@ -0,0 +1,131 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Vapor Output
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Checks what the Vapor build actually compiled. An SFC without the `vapor`
+// attribute, or one the Vapor compiler hands back, still builds, just as a
+// VDOM render function that pulls the VDOM runtime into the bundle. The plugin
+// reads the compiled code of every app module after @vitejs/plugin-vue: an SFC
+// is Vapor when its main or script module defines a Vapor component
+// (`defineVaporComponent()` or `__vapor: true`), and every module is checked
+// for VDOM runtime helpers it imports from `vue`.
+
+import path from 'node:path'
+import type { Plugin } from 'vite'
+import { APP_PACKAGE, packageNameFromId } from './module-attribution'
+
+/** How the Vapor build compiled one app module */
+export interface CompiledModule {
+  /** Path relative to the project root */
+  file: string
+  /** `script` for modules that are not SFCs */
+  output: 'vapor' | 'vdom' | 'script'
+  /** VDOM runtime helpers the compiled module imports from `vue` */
+  vdomHelpers: string[]
+}
+
+/**
+ * Helpers only VDOM render functions and VDOM components use
+ * Helpers both compilers emit (toDisplayString, normalizeClass, withModifiers, ...)
+ * are left out, since a Vapor template imports them too.
+ */
+export const VDOM_HELPERS: string[] = [
+  'openBlock',
+  'createBlock',
+  'createElementBlock',
+  'createVNode',
+  'createElementVNode',
+  'createTextVNode',
+  'createCommentVNode',
+  'createStaticVNode',
+  'createSlots',
+  'h',
+  'withCtx',
+  'withDirectives',
+  'withMemo',
+  'renderList',
+  'renderSlot',
+  'resolveDynamicComponent',
+  'mergeProps',
+  'normalizeProps',
+  'guardReactiveProps',
+  'setBlockTracking',
+  'vShow',
+  'vModelText',
+  'vModelCheckbox',
+  'vModelRadio',
+  'vModelSelect',
+  'vModelDynamic',
+  'Fragment',
+]
+
+/**
+ * Names a module imports from `vue`
+ * @param code - Compiled module code
+ * @returns Imported names without aliases
+ */
+function findVueImports(code: string): string[] {
+  const names: string[] = []
+  for (const match of code.matchAll(/import\s*\{([^}]*)\}\s*from\s*['"]vue['"]/g)) {
+    for (const specifier of match[1].split(',')) {
+      const name: string = specifier.trim().split(/\s+as\s+/)[0]
+      if (name) names.push(name)
+    }
+  }
+  return names
+}
+
+/**
+ * Classify the compiled code of one source file
+ * @param file - Path relative to the project root
+ * @param code - Compiled code of the file's modules (for SFCs the main module and its script and template requests)
+ * @returns Compiled module description
+ */
+export function analyzeModule(file: string, code: string): CompiledModule {
+  const imports: Set<string> = new Set(findVueImports(code))
+  const vdomHelpers: string[] = VDOM_HELPERS.filter((helper: string) => imports.has(helper))
+  if (!file.endsWith('.vue')) return { file, output: 'script', vdomHelpers }
+
+  const isVapor: boolean = /defineVaporComponent\s*\(|\b__vapor\s*:\s*true\b/.test(code)
+  return { file, output: isVapor ? 'vapor' : 'vdom', vdomHelpers }
+}
+
+/**
+ * Vite plugin that records how every app module of a build was compiled
+ * Runs after @vitejs/plugin-vue; dependencies, virtual modules and style
+ * requests are skipped.
+ * @param root - Project root; reported paths are relative to it
+ * @param onResult - Receives every SFC plus the scripts importing VDOM helpers, SFCs first
+ * @param linkedPackages - Package directory → name, for packages outside node_modules
+ * @returns Plugin to add to the build
+ */
+export function vaporOutputPlugin(
+  root: string,
+  onResult: (modules: CompiledModule[]) => void,
+  linkedPackages: Record<string, string> = {}
+): Plugin {
+  const code: Map<string, string[]> = new Map()
+
+  return {
+    name: 'vapor-benchmark:vapor-output',
+    apply: 'build',
+    enforce: 'post',
+    transform(source: string, id: string) {
+      if (packageNameFromId(id, linkedPackages) !== APP_PACKAGE) return null
+
+      const [file, query = '']: string[] = id.split('?')
+      if (!/\.(vue|[cm]?[jt]sx?)$/.test(file)) return null
+      if (query && !/\btype=(script|template)\b/.test(query)) return null
+
+      code.set(file, [...(code.get(file) ?? []), source])
+      return null
+    },
+    generateBundle() {
+      const modules: CompiledModule[] = [...code.entries()]
+        .map(([file, parts]) => analyzeModule(path.relative(root, file).split(path.sep).join('/'), parts.join('\n')))
+        .filter((m: CompiledModule) => m.output !== 'script' || m.vdomHelpers.length > 0)
+      onResult(modules.sort((a: CompiledModule, b: CompiledModule) =>
+        Number(a.output === 'script') - Number(b.output === 'script') || a.file.localeCompare(b.file)))
+    },
+  }
+}
@@ -0,0 +1,73 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Version Ordering Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+import assert from 'node:assert/strict'
+import { describe, mock, test } from 'node:test'
+import { compareVersions, parseVersion } from './version'
+
+/**
+ * Sort versions the way history does
+ * @param versions - Versions in any order
+ * @returns New array sorted by compareVersions
+ */
+function sorted(versions: string[]): string[] {
+  return [...versions].sort(compareVersions)
+}
+
+describe('parseVersion', () => {
+  test('splits prerelease identifiers into numbers and strings', () => {
+    assert.deepEqual(parseVersion('3.6.0-beta.10'), { major: 3, minor: 6, patch: 0, prerelease: ['beta', 10] })
+  })
+
+  test('ignores build metadata and a leading v', () => {
+    assert.deepEqual(parseVersion('v3.6.0+build.7'), { major: 3, minor: 6, patch: 0, prerelease: [] })
+  })
+
+  test('returns null for strings that are not semantic versions', () => {
+    assert.equal(parseVersion('latest'), null)
+    assert.equal(parseVersion('3.6'), null)
+  })
+})
+
+describe('compareVersions', () => {
+  test('orders prereleases numerically and before the release', () => {
+    assert.deepEqual(
+      sorted(['3.6.0', '3.6.0-beta.10', '3.6.0-alpha.7', '3.6.0-beta.9', '3.6.0-alpha.1', '3.5.18']),
+      ['3.5.18', '3.6.0-alpha.1', '3.6.0-alpha.7', '3.6.0-beta.9', '3.6.0-beta.10', '3.6.0']
+    )
+  })
+
+  test('orders a -fix suffix after the prerelease it fixes and before the release', () => {
+    assert.ok(compareVersions('3.6.0-beta.10-fix', '3.6.0-beta.10') > 0)
+    assert.ok(compareVersions('3.6.0-beta.10-fix', '3.6.0') < 0)
+  })
+
+  test('treats versions that differ only in build metadata as equal', () => {
+    assert.equal(compareVersions('3.6.0-beta.5+sha.1', '3.6.0-beta.5+sha.2'), 0)
+    assert.equal(compareVersions('3.6.0+build', '3.6.0'), 0)
+  })
+
+  test('sorts unparseable versions last, in the same order for any input order', () => {
+    mock.method(console, 'warn', () => {})
+    const expected: string[] = ['3.6.0-beta.1', '3.6.0', 'local-a', 'local-b']
+    assert.deepEqual(sorted(['local-b', '3.6.0', 'local-a', '3.6.0-beta.1']), expected)
+    assert.deepEqual(sorted(['local-a', '3.6.0-beta.1', 'local-b', '3.6.0']), expected)
+    mock.restoreAll()
+  })
+
+  test('warns once per unparseable version', () => {
+    const warn = mock.method(console, 'warn', () => {})
+    compareVersions('nightly-1', '3.6.0')
+    compareVersions('3.6.0-beta.1', 'nightly-1')
+    sorted(['nightly-1', 'nightly-2', '3.6.0', 'nightly-1'])
+    assert.deepEqual(
+      warn.mock.calls.map((call) => call.arguments[0]),
+      [
+        'Unparseable version "nightly-1"; sorting it after all semantic versions',
+        'Unparseable version "nightly-2"; sorting it after all semantic versions',
+      ]
+    )
+    mock.restoreAll()
+  })
+})
@@ -0,0 +1,101 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Version Ordering
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Semantic version parsing and precedence (https://semver.org/#spec-item-11)
+// shared by history sorting, budget checks and the backfill. Prerelease
+// identifiers are compared one by one: numeric identifiers numerically,
+// alphanumeric ones in ASCII order, numeric before alphanumeric, and a shorter
+// list first when all shared identifiers are equal. Build metadata (`+...`)
+// is ignored.
+
+export interface SemVer {
+  major: number
+  minor: number
+  patch: number
+  /** Dot-separated prerelease identifiers, empty for releases */
+  prerelease: (string | number)[]
+}
+
+const SEMVER_PATTERN: RegExp =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/
+
+/** Versions already warned about, so each one is reported once per run */
+const warnedVersions: Set<string> = new Set()
+
+/**
+ * Parse a semantic version string
+ * @param version - Version such as `3.6.0`, `3.6.0-beta.10` or `3.6.0-beta.10-fix`
+ * @returns Parsed version, or null when the string is not a semantic version
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = version.trim().match(SEMVER_PATTERN)
+  if (!match) return null
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4]
+      ? match[4].split('.').map((id: string) => (/^\d+$/.test(id) ? Number(id) : id))
+      : [],
+  }
+}
+
+/**
+ * Compare two prerelease identifiers
+ */
+function compareIdentifiers(a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  if (typeof a === 'number') return -1
+  if (typeof b === 'number') return 1
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+/**
+ * Compare two parsed versions by semver precedence
+ */
+function compareSemVer(a: SemVer, b: SemVer): number {
+  if (a.major !== b.major) return a.major - b.major
+  if (a.minor !== b.minor) return a.minor - b.minor
+  if (a.patch !== b.patch) return a.patch - b.patch
+
+  // A release is greater than any of its prereleases
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length
+  }
+
+  for (let i = 0; i < Math.min(a.prerelease.length, b.prerelease.length); i++) {
+    const result: number = compareIdentifiers(a.prerelease[i], b.prerelease[i])
+    if (result !== 0) return result
+  }
+  return a.prerelease.length - b.prerelease.length
+}
+
+/**
+ * Parse a version for sorting, warning once when it is not a semantic version
+ */
+function parseForComparison(version: string): SemVer | null {
+  const parsed: SemVer | null = parseVersion(version)
+  if (!parsed && !warnedVersions.has(version)) {
+    warnedVersions.add(version)
+    console.warn(`Unparseable version "${version}"; sorting it after all semantic versions`)
+  }
+  return parsed
+}
+
+/**
+ * Compare two versions for sorting
+ * Unparseable versions are reported once and sort after all semantic versions,
+ * in string order among themselves.
+ * @returns Negative if a < b, 0 if equal in precedence, positive if a > b
+ */
+export function compareVersions(a: string, b: string): number {
+  const vA: SemVer | null = parseForComparison(a)
+  const vB: SemVer | null = parseForComparison(b)
+
+  if (vA && vB) return compareSemVer(vA, vB)
+  if (vA) return -1
+  if (vB) return 1
+  return a.localeCompare(b)
+}
@@ -0,0 +1,234 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Vue Source
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Resolves which Vue build the benchmark compiles against. By default that is
+// the project's own `vue` dependency; `--vue <spec>` selects a different one
+// without touching package.json or the lockfile:
+//
+//   - a version, range or dist-tag (`3.6.0-beta.3`, `beta`) is installed from
+//     npm into a temporary workspace
+//   - a tarball (`.tgz`) is installed into a temporary workspace
+//   - a local vuejs/core checkout is used in place (it must be built first)
+//
+// vueSourcePlugin() then points both the `vue` import and the SFC compiler of
+// @vitejs/plugin-vue at the selected build, and writeTypeCheckConfig() does the
+// same for `vue-tsc -b`.
+
+import { execSync } from 'node:child_process'
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import os from 'node:os'
+import path from 'node:path'
+import type { Plugin } from 'vite'
+
+export type VueSourceKind = 'project' | 'registry' | 'tarball' | 'checkout'
+
+export interface VueSource {
+  /** Spec as given on the command line; undefined for the project's own Vue */
+  spec?: string
+  kind: VueSourceKind
+  /** Directory of the resolved vue package */
+  vueDir: string
+  /** Version read from the resolved vue/package.json */
+  version: string
+  /** Package directory → package name, for checkout packages outside node_modules */
+  linkedPackages: Record<string, string>
+  /** Remove the temporary workspace, if one was created */
+  cleanup(): void
+}
+
+interface PackageMeta {
+  name?: string
+  version?: string
+}
+
+/** Generated tsconfig for one type-check */
+export interface TypeCheckConfig {
+  /** Absolute path of the tsconfig to pass to `vue-tsc -b` */
+  file: string
+  /** Remove the config and its build info */
+  cleanup(): void
+}
+
+/** Name of the @vitejs/plugin-vue plugin, whose `api.options` hold the compiler */
+const VUE_PLUGIN_NAME = 'vite:vue'
+
+/**
+ * Locate the package `vue` resolves to from a directory
+ * @param from - Directory to resolve from
+ * @returns Package directory
+ */
+function findVueDir(from: string): string {
+  return path.dirname(createRequire(path.join(from, 'index.js')).resolve('vue/package.json'))
+}
+
+/**
+ * Read a package manifest
+ * @param dir - Package directory
+ * @returns Parsed package.json
+ */
+function readPackageMeta(dir: string): PackageMeta {
+  return JSON.parse(readFileSync(path.join(dir, 'package.json'), 'utf8')) as PackageMeta
+}
+
+/**
+ * Install a package spec into a fresh temporary workspace
+ * @param spec - Anything `npm install` accepts (`vue@beta`, an absolute tarball path)
+ * @returns Workspace directory
+ */
+function installIntoWorkspace(spec: string): string {
+  const workspace: string = mkdtempSync(path.join(os.tmpdir(), 'vapor-benchmark-vue-'))
+  writeFileSync(path.join(workspace, 'package.json'), JSON.stringify({ private: true }))
+
+  try {
+    execSync(`npm install ${JSON.stringify(spec)} --no-audit --no-fund --no-package-lock --ignore-scripts`, {
+      cwd: workspace,
+      stdio: 'inherit',
+    })
+  } catch (err) {
+    rmSync(workspace, { recursive: true, force: true })
+    throw new Error(`Failed to install ${spec}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+  return workspace
+}
+
+/**
+ * Map every package of a vuejs/core checkout to its directory
+ * @param checkout - Checkout root
+ * @returns Package directory → package name
+ */
+function findCheckoutPackages(checkout: string): Record<string, string> {
+  const packagesDir: string = path.join(checkout, 'packages')
+  const linked: Record<string, string> = {}
+
+  for (const entry of readdirSync(packagesDir, { withFileTypes: true })) {
+    const manifest: string = path.join(packagesDir, entry.name, 'package.json')
+    if (!entry.isDirectory() || !existsSync(manifest)) continue
+
+    const { name } = JSON.parse(readFileSync(manifest, 'utf8')) as PackageMeta
+    if (name) linked[path.join(packagesDir, entry.name)] = name
+  }
+  return linked
+}
+
+/**
+ * Resolve a `--vue` spec to a usable Vue build
+ * @param root - Project root
+ * @param spec - Version, dist-tag, tarball path or vuejs/core checkout; undefined for the project's Vue
+ * @returns Resolved source; call cleanup() when done
+ */
+export function resolveVueSource(root: string, spec?: string): VueSource {
+  if (!spec) {
+    const vueDir: string = findVueDir(root)
+    return {
+      kind: 'project',
+      vueDir,
+      version: readPackageMeta(vueDir).version ?? 'unknown',
+      linkedPackages: {},
+      cleanup: () => {},
+    }
+  }
+
+  const localPath: string = path.resolve(root, spec)
+  const isLocal: boolean = existsSync(localPath)
+
+  if (isLocal && statSync(localPath).isDirectory()) {
+    const vueDir: string = path.join(localPath, 'packages/vue')
+    if (!existsSync(path.join(vueDir, 'package.json'))) {
+      throw new Error(`${spec} is not a vuejs/core checkout (missing packages/vue/package.json)`)
+    }
+    if (!existsSync(path.join(vueDir, 'dist/vue.runtime.esm-bundler.js'))) {
+      throw new Error(`${spec} has not been built; run \`pnpm build\` in the checkout first`)
+    }
+
+    return {
+      spec,
+      kind: 'checkout',
+      vueDir,
+      version: readPackageMeta(vueDir).version ?? 'unknown',
+      linkedPackages: findCheckoutPackages(localPath),
+      cleanup: () => {},
+    }
+  }
+
+  const kind: VueSourceKind = isLocal ? 'tarball' : 'registry'
+  const workspace: string = installIntoWorkspace(isLocal ? localPath : `vue@${spec}`)
+  const vueDir: string = findVueDir(workspace)
+  const meta: PackageMeta = readPackageMeta(vueDir)
+  if (meta.name !== 'vue') {
+    rmSync(workspace, { recursive: true, force: true })
+    throw new Error(`${spec} did not install the vue package (got ${meta.name ?? 'unknown'})`)
+  }
+
+  return {
+    spec,
+    kind,
+    vueDir,
+    version: meta.version ?? 'unknown',
+    linkedPackages: {},
+    cleanup: () => rmSync(workspace, { recursive: true, force: true }),
+  }
+}
+
+/**
+ * Vite plugin that compiles and bundles against the selected Vue build
+ * Redirects `vue` and `vue/*` imports and hands @vitejs/plugin-vue the matching
+ * compiler-sfc, so templates are compiled by the same version they run on.
+ * @param source - Resolved Vue source; the plugin is a no-op for the project's Vue
+ * @returns Plugin to add to the build
+ */
+export function vueSourcePlugin(source: VueSource): Plugin {
+  return {
+    name: 'vapor-benchmark:vue-source',
+    enforce: 'pre',
+    configResolved(config) {
+      if (source.kind === 'project') return
+
+      const vuePlugin = config.plugins.find((p) => p.name === VUE_PLUGIN_NAME)
+      if (!vuePlugin?.api) {
+        throw new Error(`--vue requires @vitejs/plugin-vue (${VUE_PLUGIN_NAME}) in the Vite config`)
+      }
+      const compiler: unknown = createRequire(path.join(source.vueDir, 'package.json'))('vue/compiler-sfc')
+      vuePlugin.api.options = { ...vuePlugin.api.options, compiler }
+    },
+    resolveId(id: string) {
+      if (source.kind === 'project') return null
+      if (id !== 'vue' && !id.startsWith('vue/')) return null
+      // plugin-vue dedupes `vue` to the project root, so resolve the package directory itself
+      return this.resolve(source.vueDir + id.slice('vue'.length), undefined, { skipSelf: true })
+    },
+  }
+}
+
+/**
+ * Write a tsconfig that type-checks a project against the selected Vue build
+ * Extends the project's tsconfig.json, maps `vue` to the selected package and
+ * keeps its own build info file, so concurrent runs never share
+ * tsconfig.tsbuildinfo. The config lives under node_modules/.cache, where
+ * type packages still resolve from the project's node_modules.
+ * @param source - Resolved Vue source
+ * @param projectRoot - Directory holding tsconfig.json
+ * @returns Generated config; undefined for the project's own Vue
+ */
+export function writeTypeCheckConfig(source: VueSource, projectRoot: string): TypeCheckConfig | undefined {
+  if (source.kind === 'project') return undefined
+
+  const cacheDir: string = path.join(projectRoot, 'node_modules/.cache')
+  mkdirSync(cacheDir, { recursive: true })
+  const dir: string = mkdtempSync(path.join(cacheDir, 'vapor-benchmark-tsc-'))
+  const file: string = path.join(dir, 'tsconfig.json')
+
+  writeFileSync(file, JSON.stringify({
+    extends: path.join(projectRoot, 'tsconfig.json'),
+    compilerOptions: {
+      tsBuildInfoFile: path.join(dir, 'tsconfig.tsbuildinfo'),
+      paths: {
+        vue: [source.vueDir],
+        'vue/*': [`${source.vueDir}/*`],
+      },
+    },
+  }, null, 2))
+
+  return { file, cleanup: () => rmSync(dir, { recursive: true, force: true }) }
+}